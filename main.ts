@@ -1,48 +1,163 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, WorkspaceLeaf } from 'obsidian';
+import { App, CachedMetadata, Plugin, PluginSettingTab, Setting, Notice, WorkspaceLeaf, TAbstractFile, TFile, TFolder, parseLinktext } from 'obsidian';
 import { GeminiService } from './src/gemini-service';
+import { OpenAIService } from './src/openai-service';
+import { OllamaService } from './src/ollama-service';
+import { AIProvider, PROVIDER_NAMES, ProviderId } from './src/provider';
 import { VectorDatabase } from './src/vector-db';
 import { ChatView, VIEW_TYPE_GEMINI_CHAT } from './src/chat-view';
-import { NoteIndexer } from './src/indexer';
+import { RelatedNotesView, VIEW_TYPE_RELATED_NOTES } from './src/related-notes-view';
+import { QueryEmbeddingCache, SemanticSearchModal } from './src/semantic-search-modal';
+import { IndexProgress, NoteIndexer } from './src/indexer';
+import { IndexProgressModal } from './src/index-progress-modal';
+import { IndexQueue } from './src/index-queue';
+import { IndexMode } from './src/ann-index';
+import { RerankMethod } from './src/reranker';
+import { ExclusionRules, INDEX_PROPERTY } from './src/exclusions';
+import { ContentExtractors } from './src/extractors';
+import { findEmbeddingNotes } from './src/note-preprocessor';
+import { ConversationStore } from './src/conversation-store';
+import { ConversationExporter } from './src/conversation-exporter';
+import { ContextMode, ContextScope } from './src/context-scope';
 
 interface GeminiVectorChatSettings {
+	provider: ProviderId;
 	geminiApiKey: string;
 	model: string;
 	embeddingModel: string;
+	embeddingRequestsPerMinute: number;
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiChatModel: string;
+	openaiEmbeddingModel: string;
+	ollamaBaseUrl: string;
+	ollamaChatModel: string;
+	ollamaEmbeddingModel: string;
 	temperature: number;
 	topK: number;
+	searchIndex: IndexMode;
+	hybridSearch: boolean;
+	keywordWeight: number;
+	rerankMethod: RerankMethod;
+	rerankPoolSize: number;
+	mmrLambda: number;
+	queryRewriting: boolean;
+	maxSubQueries: number;
+	graphExpansion: boolean;
+	graphDepth: number;
+	graphBudget: number;
+	graphBoost: number;
+	contextTokenBudget: number;
+	relatedNotesCount: number;
+	relatedHideLinked: boolean;
+	chunkSize: number;
+	chunkOverlap: number;
+	indexedProperties: string;
+	embedProperties: boolean;
+	inlineEmbeds: boolean;
+	indexCanvas: boolean;
+	indexPdfs: boolean;
+	indexImages: boolean;
+	includePatterns: string;
+	excludePatterns: string;
+	excludeTag: string;
+	exportFolder: string;
 	autoIndex: boolean;
+	liveIndexing: boolean;
 	showDebugInfo: boolean;
 }
 
 const DEFAULT_SETTINGS: GeminiVectorChatSettings = {
+	provider: 'gemini',
 	geminiApiKey: '',
 	model: 'gemini-2.0-flash',
 	embeddingModel: 'text-embedding-004',
+	embeddingRequestsPerMinute: 100,
+	openaiBaseUrl: 'https://api.openai.com/v1',
+	openaiApiKey: '',
+	openaiChatModel: 'gpt-4o-mini',
+	openaiEmbeddingModel: 'text-embedding-3-small',
+	ollamaBaseUrl: 'http://localhost:11434',
+	ollamaChatModel: 'llama3.1',
+	ollamaEmbeddingModel: 'nomic-embed-text',
 	temperature: 0.7,
 	topK: 5,
+	searchIndex: 'auto',
+	hybridSearch: true,
+	keywordWeight: 0.3,
+	rerankMethod: 'none',
+	rerankPoolSize: 20,
+	mmrLambda: 0.7,
+	queryRewriting: false,
+	maxSubQueries: 0,
+	graphExpansion: false,
+	graphDepth: 1,
+	graphBudget: 3,
+	graphBoost: 0.05,
+	contextTokenBudget: 16000,
+	relatedNotesCount: 10,
+	relatedHideLinked: false,
+	chunkSize: 1500,
+	chunkOverlap: 200,
+	indexedProperties: 'summary, status',
+	embedProperties: false,
+	inlineEmbeds: true,
+	indexCanvas: true,
+	indexPdfs: false,
+	indexImages: false,
+	includePatterns: '',
+	excludePatterns: '',
+	excludeTag: 'private',
+	exportFolder: 'Gemini Chats',
 	autoIndex: true,
+	liveIndexing: true,
 	showDebugInfo: false
 }
 
 export default class GeminiVectorChatPlugin extends Plugin {
 	settings: GeminiVectorChatSettings;
-	geminiService: GeminiService;
+	provider: AIProvider;
 	vectorDb: VectorDatabase;
 	indexer: NoteIndexer;
+	exclusions: ExclusionRules;
+	extractors: ContentExtractors;
+	indexQueue: IndexQueue;
+	conversations: ConversationStore;
+	exporter: ConversationExporter;
+	queryEmbeddings: QueryEmbeddingCache = new QueryEmbeddingCache(50);
 	chatView: ChatView | null = null;
+	private statusBarEl: HTMLElement;
+	private legacyChatHistory: any = null;
 
 	async onload() {
 		await this.loadSettings();
 
-		// Check if API key is configured
-		if (!this.settings.geminiApiKey) {
-			new Notice('⚠️ Gemini API key not configured. Please add your API key in settings.');
-		}
-
 		// Initialize services
-		this.geminiService = new GeminiService(this.settings.geminiApiKey || 'placeholder', this.settings);
+		this.provider = this.createProvider();
 		this.vectorDb = new VectorDatabase(this.app, this);
-		this.indexer = new NoteIndexer(this.app, this.geminiService, this.vectorDb, this);
+		this.extractors = new ContentExtractors(this.app, this);
+		this.exclusions = new ExclusionRules(this.app, this, this.extractors);
+		this.indexer = new NoteIndexer(this.app, this.provider, this.vectorDb, this.exclusions, this.extractors, this);
+		this.conversations = new ConversationStore(this.app, '.obsidian/plugins/gemini-vector-chat/conversations');
+		await this.migrateChatHistory();
+		this.exporter = new ConversationExporter(this.app, this);
+
+		// Check the provider is configured
+		if (!this.provider.isConfigured()) {
+			new Notice(`⚠️ ${this.provider.name} is not configured. Please check the plugin settings.`);
+		}
+
+		// Status bar shows full index runs and the live indexing queue
+		this.statusBarEl = this.addStatusBarItem();
+		this.indexQueue = new IndexQueue(this.app, this.indexer, this.vectorDb, (depth, processing) => {
+			this.updateStatusBar(depth, processing);
+		});
+		this.register(this.indexer.onProgress(progress => this.updateIndexProgress(progress)));
+		this.statusBarEl.addEventListener('click', () => {
+			const progress = this.indexer.getProgress();
+			if (progress && (progress.state === 'running' || progress.state === 'cancelling')) {
+				new IndexProgressModal(this.app, this.indexer).open();
+			}
+		});
 
 		// Register the chat view
 		this.registerView(
@@ -53,6 +168,19 @@ export default class GeminiVectorChatPlugin extends Plugin {
 			}
 		);
 
+		// Let citation links in the chat show page previews
+		this.registerHoverLinkSource(VIEW_TYPE_GEMINI_CHAT, {
+			display: 'Gemini Chat',
+			defaultMod: true
+		});
+
+		// Register the related notes pane
+		this.registerView(VIEW_TYPE_RELATED_NOTES, (leaf) => new RelatedNotesView(leaf, this));
+		this.registerHoverLinkSource(VIEW_TYPE_RELATED_NOTES, {
+			display: 'Related notes',
+			defaultMod: true
+		});
+
 		// Add ribbon icon
 		const ribbonIconEl = this.addRibbonIcon('message-square', 'Gemini Chat', (evt: MouseEvent) => {
 			this.activateChatView();
@@ -67,17 +195,158 @@ export default class GeminiVectorChatPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'semantic-search',
+			name: 'Semantic search',
+			callback: () => {
+				if (!this.provider.isConfigured()) {
+					new Notice(`${this.provider.name} is not configured. Please check the plugin settings.`);
+					return;
+				}
+				new SemanticSearchModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-related-notes',
+			name: 'Open related notes',
+			callback: () => {
+				this.activateRelatedNotesView();
+			}
+		});
+
+		// Open the chat scoped to the current note, its links or its folder
+		const scopedCommands: { id: string, name: string, mode: ContextMode }[] = [
+			{ id: 'chat-about-current-note', name: 'Chat about current note', mode: 'note' },
+			{ id: 'chat-about-linked-notes', name: 'Chat about current note and linked notes', mode: 'linked' },
+			{ id: 'chat-about-current-folder', name: 'Chat about current folder', mode: 'folder' }
+		];
+		scopedCommands.forEach(command => {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				checkCallback: (checking: boolean) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || file.extension !== 'md') {
+						return false;
+					}
+					if (!checking) {
+						this.openScopedChat({ mode: command.mode, file });
+					}
+					return true;
+				}
+			});
+		});
+
+		this.addCommand({
+			id: 'chat-about-selection',
+			name: 'Chat about selection',
+			editorCheckCallback: (checking: boolean, editor, view) => {
+				const text = editor.getSelection();
+				if (!text.trim()) {
+					return false;
+				}
+				if (!checking) {
+					this.openScopedChat({
+						mode: 'selection',
+						file: view.file || undefined,
+						selection: { text, startLine: editor.getCursor('from').line, endLine: editor.getCursor('to').line }
+					});
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, view) => {
+			const text = editor.getSelection();
+			if (!text.trim()) {
+				return;
+			}
+			menu.addItem(item => item
+				.setTitle('Ask Gemini about selection')
+				.setIcon('message-square')
+				.onClick(() => this.openScopedChat({
+					mode: 'selection',
+					file: view.file || undefined,
+					selection: { text, startLine: editor.getCursor('from').line, endLine: editor.getCursor('to').line }
+				}))
+			);
+		}));
+
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFile && file.extension === 'md') {
+				menu.addItem(item => item
+					.setTitle('Chat about this note')
+					.setIcon('message-square')
+					.onClick(() => this.openScopedChat({ mode: 'note', file }))
+				);
+			} else if (file instanceof TFolder) {
+				menu.addItem(item => item
+					.setTitle('Chat about this folder')
+					.setIcon('message-square')
+					.onClick(() => this.openScopedChat({ mode: 'folder', folderPath: file.isRoot() ? '' : file.path }))
+				);
+			}
+		}));
+
+		this.addCommand({
+			id: 'export-conversation',
+			name: 'Export current conversation to a note',
+			checkCallback: (checking: boolean) => {
+				if (!this.chatView || !this.chatView.getLastAnswer()) {
+					return false;
+				}
+				if (!checking) {
+					this.chatView.exportConversation();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'insert-last-answer',
+			name: 'Insert last answer at cursor',
+			editorCheckCallback: (checking: boolean, editor, view) => {
+				const answer = this.chatView ? this.chatView.getLastAnswer() : null;
+				if (!answer) {
+					return false;
+				}
+				if (!checking) {
+					this.exporter.insertAnswer(editor, view.file, answer);
+				}
+				return true;
+			}
+		});
+
 		this.addCommand({
 			id: 'index-all-notes',
 			name: 'Index all notes for semantic search',
 			callback: async () => {
 				new Notice('Starting indexing process...');
 				try {
-					const count = await this.indexer.indexAllNotes();
-					new Notice(`Successfully indexed ${count} notes!`);
+					await this.indexer.indexAllNotes();
 				} catch (error) {
-					console.error('Indexing error:', error);
-					new Notice(`Indexing failed: ${error.message}`);
+					// Already logged and shown by the indexer
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'retry-failed-embeddings',
+			name: 'Retry failed embeddings',
+			callback: async () => {
+				if (await this.indexer.getFailedCount() === 0) {
+					new Notice('No failed embeddings to retry');
+					return;
+				}
+				try {
+					const count = await this.indexer.retryFailedNotes();
+					const remaining = await this.indexer.getFailedCount();
+					new Notice(remaining > 0
+						? `Re-indexed ${count} notes, ${remaining} still failing`
+						: `Re-indexed ${count} notes`);
+				} catch (error) {
+					new Notice(`Retry failed: ${error.message}`);
 				}
 			}
 		});
@@ -98,32 +367,145 @@ export default class GeminiVectorChatPlugin extends Plugin {
 		// Add settings tab
 		this.addSettingTab(new GeminiVectorChatSettingTab(this.app, this));
 
-		// Auto-index on startup if enabled
-		if (this.settings.autoIndex) {
-			// Wait a bit for the vault to be fully loaded
-			this.app.workspace.onLayoutReady(async () => {
-				const needsIndexing = await this.vectorDb.needsReindexing();
+		// Keep the index in sync with vault changes. Registered after layout is ready
+		// so the create events fired while the vault loads are not queued.
+		this.app.workspace.onLayoutReady(() => {
+			this.registerVaultEvents();
+		});
+
+		this.app.workspace.onLayoutReady(async () => {
+			// Finish a full index run that was cut short by a crash or restart
+			if (await this.indexer.hasCheckpoint()) {
+				new Notice('Resuming interrupted indexing for Gemini Chat...');
+				try {
+					await this.indexer.indexAllNotes(false);
+				} catch (error) {
+					// Already logged and shown by the indexer
+				}
+				return;
+			}
+
+			// Auto-index on startup if enabled
+			if (this.settings.autoIndex) {
+				const needsIndexing = await this.indexer.needsReindexing();
 				if (needsIndexing) {
 					new Notice('Auto-indexing notes for Gemini Chat...');
 					try {
-						const count = await this.indexer.indexAllNotes();
-						new Notice(`Indexed ${count} notes successfully`);
+						await this.indexer.indexAllNotes(false);
 					} catch (error) {
-						console.error('Auto-indexing error:', error);
+						// Already logged and shown by the indexer
 					}
 				}
-			});
+			}
+		});
+	}
+
+	private registerVaultEvents() {
+		// Notes wait for the metadata cache, their exclusion rules read it
+		this.registerEvent(this.app.vault.on('create', (file) => {
+			if (this.isLiveIndexable(file) && file.extension !== 'md') {
+				this.indexQueue.enqueueUpsert(file);
+			}
+		}));
+
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (this.isLiveIndexable(file) && file.extension !== 'md') {
+				this.indexQueue.enqueueUpsert(file);
+			}
+		}));
+
+		// After the cache has the note's new properties, tags and embeds
+		this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => {
+			if (this.isLiveIndexable(file)) {
+				this.indexQueue.enqueueUpsert(file);
+				this.enqueueEmbeddingNotes(file);
+			}
+			this.enqueueEmbeddedImages(file, cache);
+		}));
+
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (this.isLiveIndexable(file)) {
+				this.indexQueue.enqueueRename(file, oldPath);
+			} else if (this.settings.liveIndexing && this.extractors.isSupportedPath(oldPath)) {
+				// Renamed to a type that is not indexed, so it no longer belongs in the index
+				this.indexQueue.enqueueDelete(oldPath);
+			}
+		}));
+
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (this.isLiveIndexable(file)) {
+				this.indexQueue.enqueueDelete(file.path);
+			}
+		}));
+	}
+
+	// Notes that inline this one through embeds are indexed with its text
+	private enqueueEmbeddingNotes(file: TFile) {
+		if (this.settings.inlineEmbeds && file.extension === 'md') {
+			findEmbeddingNotes(this.app, file)
+				.filter(note => this.isLiveIndexable(note))
+				.forEach(note => this.indexQueue.enqueueUpsert(note));
 		}
 	}
 
-	async activateChatView() {
+	// Images are indexed with the alt text notes embed them with
+	private enqueueEmbeddedImages(file: TFile, cache: CachedMetadata) {
+		(cache.embeds || []).forEach(embed => {
+			const image = this.app.metadataCache.getFirstLinkpathDest(parseLinktext(embed.link).path, file.path);
+			const extractor = image ? this.extractors.get(image) : null;
+			if (image && extractor && extractor.fileType === 'image' && this.isLiveIndexable(image)) {
+				this.indexQueue.enqueueUpsert(image);
+			}
+		});
+	}
+
+	private isLiveIndexable(file: TAbstractFile): file is TFile {
+		return this.settings.liveIndexing && file instanceof TFile && this.extractors.isSupported(file);
+	}
+
+	private updateIndexProgress(progress: IndexProgress) {
+		if (progress.state === 'running' || progress.state === 'cancelling') {
+			const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+			this.statusBarEl.setText(`Gemini: indexing ${progress.processed}/${progress.total} (${percent}%)`);
+			this.statusBarEl.addClass('mod-clickable');
+		} else {
+			this.statusBarEl.setText('');
+			this.statusBarEl.removeClass('mod-clickable');
+		}
+	}
+
+	private updateStatusBar(depth: number, processing: boolean) {
+		if (this.indexer.isCurrentlyIndexing()) {
+			// A full run is reporting its own progress
+			return;
+		}
+
+		if (processing) {
+			this.statusBarEl.setText(`Gemini: indexing (${depth} queued)`);
+		} else if (depth > 0) {
+			this.statusBarEl.setText(`Gemini: ${depth} queued`);
+		} else {
+			this.statusBarEl.setText('');
+		}
+	}
+
+	async activateChatView(): Promise<ChatView | null> {
+		const leaf = await this.revealView(VIEW_TYPE_GEMINI_CHAT);
+		return leaf && leaf.view instanceof ChatView ? leaf.view : null;
+	}
+
+	async activateRelatedNotesView() {
+		await this.revealView(VIEW_TYPE_RELATED_NOTES);
+	}
+
+	private async revealView(type: string): Promise<WorkspaceLeaf | null> {
 		const { workspace } = this.app;
 
 		let leaf: WorkspaceLeaf | null = null;
-		const leaves = workspace.getLeavesOfType(VIEW_TYPE_GEMINI_CHAT);
+		const leaves = workspace.getLeavesOfType(type);
 
 		if (leaves.length > 0) {
-			// A chat view already exists, activate it
+			// The view already exists, activate it
 			leaf = leaves[0];
 		} else {
 			// Create a new leaf in the right sidebar
@@ -136,30 +518,82 @@ export default class GeminiVectorChatPlugin extends Plugin {
 
 			if (leaf) {
 				await leaf.setViewState({
-					type: VIEW_TYPE_GEMINI_CHAT,
+					type,
 					active: true,
 				});
 			}
 		}
 
 		if (leaf) {
-			workspace.revealLeaf(leaf);
+			await workspace.revealLeaf(leaf);
+		}
+		return leaf;
+	}
+
+	async openScopedChat(scope: ContextScope) {
+		const view = await this.activateChatView();
+		if (view) {
+			view.setScope(scope);
 		}
 	}
 
 	onunload() {
-		// Cleanup
+		// Cleanup; a full index run stops and resumes on the next start. Obsidian
+		// does not wait for this, so saving after the run's last batch is best-effort
+		this.indexQueue.clear();
+		this.indexer.stop()
+			.then(() => this.vectorDb.flush())
+			.catch(error => console.error('Failed to save vector database:', error));
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_GEMINI_CHAT);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_RELATED_NOTES);
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = (await this.loadData()) || {};
+
+		// Older versions kept the chat history in data.json next to the settings
+		this.legacyChatHistory = data.chatHistory || null;
+		delete data.chatHistory;
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+	}
+
+	private async migrateChatHistory() {
+		if (!this.legacyChatHistory) {
+			return;
+		}
+
+		try {
+			await this.conversations.load();
+			await this.conversations.importLegacyHistory(this.legacyChatHistory.messages || [], this.provider.getChatModelId());
+			this.legacyChatHistory = null;
+			// Rewrite data.json without the history
+			await this.saveSettings();
+		} catch (error) {
+			console.error('Failed to migrate chat history:', error);
+		}
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 		// Update services with new settings
-		this.geminiService.updateSettings(this.settings);
+		if (this.provider.id !== this.settings.provider) {
+			this.provider = this.createProvider();
+			this.indexer.setProvider(this.provider);
+		} else {
+			this.provider.updateSettings(this.settings);
+		}
+	}
+
+	private createProvider(): AIProvider {
+		switch (this.settings.provider) {
+			case 'openai':
+				return new OpenAIService(this.settings);
+			case 'ollama':
+				return new OllamaService(this.settings);
+			default:
+				return new GeminiService(this.settings.geminiApiKey || 'placeholder', this.settings);
+		}
 	}
 }
 
@@ -178,33 +612,41 @@ class GeminiVectorChatSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', {text: 'Gemini Vector Chat Settings'});
 
-		// API Key setting
+		// Provider selection
 		new Setting(containerEl)
-			.setName('Gemini API Key')
-			.setDesc('Enter your Google Gemini API key')
-			.addText(text => text
-				.setPlaceholder('Enter your API key')
-				.setValue(this.plugin.settings.geminiApiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.geminiApiKey = value;
-					await this.plugin.saveSettings();
-				})
-				.inputEl.type = 'password'
-			);
+			.setName('Provider')
+			.setDesc('Service used for embeddings and chat. Changing it requires re-indexing, since embeddings from different models cannot be compared')
+			.addDropdown(dropdown => {
+				Object.keys(PROVIDER_NAMES).forEach(id => dropdown.addOption(id, PROVIDER_NAMES[id]));
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value) => {
+						this.plugin.settings.provider = value as ProviderId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.provider === 'openai') {
+			this.displayOpenAISettings(containerEl);
+		} else if (this.plugin.settings.provider === 'ollama') {
+			this.displayOllamaSettings(containerEl);
+		} else {
+			this.displayGeminiSettings(containerEl);
+		}
 
-		// Model selection
 		new Setting(containerEl)
-			.setName('Chat Model')
-			.setDesc('Select the Gemini model to use for chat')
-			.addDropdown(dropdown => dropdown
-				.addOption('gemini-2.0-flash', 'Gemini 2.0 Flash (Recommended)')
-				.addOption('gemini-2.0-flash-002', 'Gemini 2.0 Flash v002')
-				.addOption('gemini-1.5-flash-002', 'Gemini 1.5 Flash v002')
-				.addOption('gemini-1.5-pro-002', 'Gemini 1.5 Pro v002 (Advanced)')
-				.setValue(this.plugin.settings.model)
-				.onChange(async (value) => {
-					this.plugin.settings.model = value;
-					await this.plugin.saveSettings();
+			.setName('Test connection')
+			.setDesc('Generate a test embedding with the current provider')
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(async () => {
+					button.setDisabled(true);
+					const ok = await this.plugin.provider.testConnection();
+					new Notice(ok
+						? `Connected to ${this.plugin.provider.name}`
+						: `Could not connect to ${this.plugin.provider.name}, see the console for details`);
+					button.setDisabled(false);
 				})
 			);
 
@@ -236,6 +678,287 @@ class GeminiVectorChatSettingTab extends PluginSettingTab {
 				})
 			);
 
+		// Search index setting
+		new Setting(containerEl)
+			.setName('Search Index')
+			.setDesc('How similar chunks are found. Approximate (HNSW) search is much faster on large vaults at a small cost in accuracy')
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', 'Automatic (exact below 5000 chunks)')
+				.addOption('exact', 'Exact')
+				.addOption('hnsw', 'Approximate (HNSW)')
+				.setValue(this.plugin.settings.searchIndex)
+				.onChange(async (value) => {
+					this.plugin.settings.searchIndex = value as IndexMode;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Hybrid search settings
+		new Setting(containerEl)
+			.setName('Hybrid Search')
+			.setDesc('Combine semantic search with keyword (BM25) search, so exact terms like names, ticket ids and acronyms are found')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hybridSearch)
+				.onChange(async (value) => {
+					this.plugin.settings.hybridSearch = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Keyword Weight')
+			.setDesc('How much the keyword ranking counts when results are merged (0 = semantic only, 1 = keywords only)')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.05)
+				.setValue(this.plugin.settings.keywordWeight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.keywordWeight = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Re-ranking settings
+		new Setting(containerEl)
+			.setName('Re-ranking')
+			.setDesc('Fetch a larger pool of candidates and re-order it before picking the notes sent to the chat model')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Off')
+				.addOption('llm', 'Chat model grades relevance (one extra call)')
+				.addOption('mmr', 'Diversify (maximal marginal relevance)')
+				.setValue(this.plugin.settings.rerankMethod)
+				.onChange(async (value) => {
+					this.plugin.settings.rerankMethod = value as RerankMethod;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Re-ranking pool size')
+			.setDesc('How many candidate notes are fetched for re-ranking')
+			.addSlider(slider => slider
+				.setLimits(10, 50, 5)
+				.setValue(this.plugin.settings.rerankPoolSize)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.rerankPoolSize = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Diversity trade-off')
+			.setDesc('For diversifying: 1 ranks by similarity only, lower values favour notes unlike those already picked')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.05)
+				.setValue(this.plugin.settings.mmrLambda)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.mmrLambda = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Query rewriting settings
+		new Setting(containerEl)
+			.setName('Rewrite follow-up questions')
+			.setDesc('Use the chat model to turn follow-ups like "what about the second one?" into standalone search queries. Costs one extra model call per question')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.queryRewriting)
+				.onChange(async (value) => {
+					this.plugin.settings.queryRewriting = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Sub-queries')
+			.setDesc('When rewriting, split questions about several things into up to this many extra searches and merge the results (0 = off)')
+			.addSlider(slider => slider
+				.setLimits(0, 4, 1)
+				.setValue(this.plugin.settings.maxSubQueries)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxSubQueries = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Link graph settings
+		new Setting(containerEl)
+			.setName('Link expansion')
+			.setDesc('Also consider notes linked to or from the best matches, ranked by similarity plus a bonus for being close in the link graph')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.graphExpansion)
+				.onChange(async (value) => {
+					this.plugin.settings.graphExpansion = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Link depth')
+			.setDesc('How many links away from a match to look')
+			.addSlider(slider => slider
+				.setLimits(1, 3, 1)
+				.setValue(this.plugin.settings.graphDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.graphDepth = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Linked notes budget')
+			.setDesc('Maximum number of linked notes added to the context')
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.plugin.settings.graphBudget)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.graphBudget = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Link proximity boost')
+			.setDesc('Similarity bonus for a directly linked note; halved at two links away, and so on')
+			.addSlider(slider => slider
+				.setLimits(0, 0.2, 0.01)
+				.setValue(this.plugin.settings.graphBoost)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.graphBoost = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Context budget
+		new Setting(containerEl)
+			.setName('Context token budget')
+			.setDesc('Approximate tokens sent per question. Up to 30% goes to earlier messages (older ones are shortened or left out), the rest to the best matching passages')
+			.addSlider(slider => slider
+				.setLimits(2000, 128000, 2000)
+				.setValue(this.plugin.settings.contextTokenBudget)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.contextTokenBudget = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Related notes pane
+		new Setting(containerEl)
+			.setName('Related notes')
+			.setDesc('How many similar notes the related notes pane lists')
+			.addSlider(slider => slider
+				.setLimits(3, 30, 1)
+				.setValue(this.plugin.settings.relatedNotesCount)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.relatedNotesCount = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Chunking settings
+		new Setting(containerEl)
+			.setName('Chunk Size')
+			.setDesc('Maximum characters per indexed chunk. Notes are split along headings and paragraphs (re-index to apply)')
+			.addSlider(slider => slider
+				.setLimits(500, 4000, 100)
+				.setValue(this.plugin.settings.chunkSize)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.chunkSize = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Chunk Overlap')
+			.setDesc('Characters repeated between neighbouring chunks of the same section')
+			.addSlider(slider => slider
+				.setLimits(0, 500, 50)
+				.setValue(this.plugin.settings.chunkOverlap)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.chunkOverlap = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Frontmatter settings
+		new Setting(containerEl)
+			.setName('Indexed properties')
+			.setDesc('Comma-separated frontmatter properties stored with each note in the index, e.g. summary, status. Tags and aliases are always stored')
+			.addText(text => text
+				.setPlaceholder('summary, status')
+				.setValue(this.plugin.settings.indexedProperties)
+				.onChange(async (value) => {
+					this.plugin.settings.indexedProperties = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Embed property values')
+			.setDesc('Also include the indexed properties in the text that is embedded, so a note can be found by its summary or status (notes are re-embedded on the next index)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.embedProperties)
+				.onChange(async (value) => {
+					this.plugin.settings.embedProperties = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Content settings
+		new Setting(containerEl)
+			.setName('Inline embedded notes')
+			.setDesc('Index the text of ![[embedded]] notes and sections as part of the note that embeds them (notes are re-embedded on the next index)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.inlineEmbeds)
+				.onChange(async (value) => {
+					this.plugin.settings.inlineEmbeds = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Index canvases')
+			.setDesc('Index the cards and connections of .canvas files')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indexCanvas)
+				.onChange(async (value) => {
+					this.plugin.settings.indexCanvas = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Index PDFs')
+			.setDesc('Index the text of PDF attachments. Large vaults of PDFs take a while to read and embed')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indexPdfs)
+				.onChange(async (value) => {
+					this.plugin.settings.indexPdfs = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Index images')
+			.setDesc('Index images by the alt text notes embed them with, e.g. ![[photo.png|Team at the offsite]]. Images without alt text are skipped')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.indexImages)
+				.onChange(async (value) => {
+					this.plugin.settings.indexImages = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// Auto-index setting
 		new Setting(containerEl)
 			.setName('Auto-index on startup')
@@ -248,6 +971,86 @@ class GeminiVectorChatSettingTab extends PluginSettingTab {
 				})
 			);
 
+		// Live indexing setting
+		new Setting(containerEl)
+			.setName('Live indexing')
+			.setDesc('Re-index notes automatically as they are created, edited, renamed or deleted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.liveIndexing)
+				.onChange(async (value) => {
+					this.plugin.settings.liveIndexing = value;
+					if (!value) {
+						this.plugin.indexQueue.clear();
+					}
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Exclusion settings
+		containerEl.createEl('h3', {text: 'Exclusions'});
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: `Excluded notes are never sent to the embedding API. Notes with "${INDEX_PROPERTY}: false" in their frontmatter are always excluded.`
+		});
+
+		const previewDiv = containerEl.createDiv('gemini-stats');
+
+		new Setting(containerEl)
+			.setName('Include patterns')
+			.setDesc('Only index notes matching one of these globs, one per line (empty = whole vault). Example: Projects/**')
+			.addTextArea(text => text
+				.setPlaceholder('Projects/\nAreas/**/*.md')
+				.setValue(this.plugin.settings.includePatterns)
+				.onChange(async (value) => {
+					this.plugin.settings.includePatterns = value;
+					await this.plugin.saveSettings();
+					this.updateExclusionPreview(previewDiv);
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Exclude patterns')
+			.setDesc('Never index notes matching these globs, one per line. A folder name excludes everything inside it, and a later !pattern takes notes back in')
+			.addTextArea(text => text
+				.setPlaceholder('Templates/\nJournal/**\n!Journal/Shared/\n**/*.excalidraw.md')
+				.setValue(this.plugin.settings.excludePatterns)
+				.onChange(async (value) => {
+					this.plugin.settings.excludePatterns = value;
+					await this.plugin.saveSettings();
+					this.updateExclusionPreview(previewDiv);
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Exclusion tag')
+			.setDesc('Notes with this tag (or a nested tag below it) are not indexed. Leave empty to disable')
+			.addText(text => text
+				.setPlaceholder('private')
+				.setValue(this.plugin.settings.excludeTag)
+				.onChange(async (value) => {
+					this.plugin.settings.excludeTag = value;
+					await this.plugin.saveSettings();
+					this.updateExclusionPreview(previewDiv);
+				})
+			);
+
+		// Keep the preview below the rules it describes
+		containerEl.appendChild(previewDiv);
+		this.updateExclusionPreview(previewDiv);
+
+		// Export setting
+		new Setting(containerEl)
+			.setName('Export folder')
+			.setDesc('Folder where exported conversations are saved as notes')
+			.addText(text => text
+				.setPlaceholder('Gemini Chats')
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFolder = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// Debug info setting
 		new Setting(containerEl)
 			.setName('Show debug information')
@@ -279,11 +1082,12 @@ class GeminiVectorChatSettingTab extends PluginSettingTab {
 					button.setDisabled(true);
 					button.setButtonText('Indexing...');
 					try {
-						const count = await this.plugin.indexer.indexAllNotes();
-						new Notice(`Successfully indexed ${count} notes!`);
-						this.updateStats(statsDiv);
+						const result = await this.plugin.indexer.indexAllNotes();
+						if (result.status !== 'already-running') {
+							this.updateStats(statsDiv);
+						}
 					} catch (error) {
-						new Notice(`Indexing failed: ${error.message}`);
+						// Already logged and shown by the indexer
 					} finally {
 						button.setButtonText('Start Indexing');
 						button.setDisabled(false);
@@ -309,12 +1113,164 @@ class GeminiVectorChatSettingTab extends PluginSettingTab {
 			);
 	}
 
+	private displayGeminiSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Gemini API Key')
+			.setDesc('Enter your Google Gemini API key')
+			.addText(text => text
+				.setPlaceholder('Enter your API key')
+				.setValue(this.plugin.settings.geminiApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.geminiApiKey = value;
+					await this.plugin.saveSettings();
+				})
+				.inputEl.type = 'password'
+			);
+
+		// Model selection
+		new Setting(containerEl)
+			.setName('Chat Model')
+			.setDesc('Select the Gemini model to use for chat')
+			.addDropdown(dropdown => dropdown
+				.addOption('gemini-2.0-flash', 'Gemini 2.0 Flash (Recommended)')
+				.addOption('gemini-2.0-flash-002', 'Gemini 2.0 Flash v002')
+				.addOption('gemini-1.5-flash-002', 'Gemini 1.5 Flash v002')
+				.addOption('gemini-1.5-pro-002', 'Gemini 1.5 Pro v002 (Advanced)')
+				.setValue(this.plugin.settings.model)
+				.onChange(async (value) => {
+					this.plugin.settings.model = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Embedding requests per minute')
+			.setDesc('Upper limit on embedding API calls while indexing; each call embeds up to 100 chunks. Lower it if you see rate limit errors')
+			.addSlider(slider => slider
+				.setLimits(10, 1500, 10)
+				.setValue(this.plugin.settings.embeddingRequestsPerMinute)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingRequestsPerMinute = value;
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private displayOpenAISettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('OpenAI API or any compatible gateway, up to and including /v1')
+			.addText(text => text
+				.setPlaceholder('https://api.openai.com/v1')
+				.setValue(this.plugin.settings.openaiBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('API Key')
+			.setDesc('Sent as a Bearer token. Leave empty for gateways without authentication')
+			.addText(text => text
+				.setPlaceholder('sk-...')
+				.setValue(this.plugin.settings.openaiApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiApiKey = value;
+					await this.plugin.saveSettings();
+				})
+				.inputEl.type = 'password'
+			);
+
+		new Setting(containerEl)
+			.setName('Chat Model')
+			.addText(text => text
+				.setPlaceholder('gpt-4o-mini')
+				.setValue(this.plugin.settings.openaiChatModel)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiChatModel = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Embedding Model')
+			.setDesc('Changing the embedding model requires re-indexing')
+			.addText(text => text
+				.setPlaceholder('text-embedding-3-small')
+				.setValue(this.plugin.settings.openaiEmbeddingModel)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiEmbeddingModel = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private displayOllamaSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Ollama URL')
+			.setDesc('Address of the local Ollama server')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434')
+				.setValue(this.plugin.settings.ollamaBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Chat Model')
+			.setDesc('Any model pulled into Ollama, e.g. llama3.1 or mistral')
+			.addText(text => text
+				.setPlaceholder('llama3.1')
+				.setValue(this.plugin.settings.ollamaChatModel)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaChatModel = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Embedding Model')
+			.setDesc('An embedding model such as nomic-embed-text or mxbai-embed-large. Changing it requires re-indexing')
+			.addText(text => text
+				.setPlaceholder('nomic-embed-text')
+				.setValue(this.plugin.settings.ollamaEmbeddingModel)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaEmbeddingModel = value.trim();
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	hide(): void {
+		// Apply changed exclusion rules once the user is done editing them
+		this.plugin.indexer.purgeExcludedNotes().then((removed: number) => {
+			if (removed > 0) {
+				new Notice(`Removed ${removed} excluded notes from the index`);
+			}
+		}).catch((error: Error) => {
+			console.error('Failed to remove excluded notes:', error);
+		});
+	}
+
+	updateExclusionPreview(container: HTMLElement) {
+		container.empty();
+		this.plugin.exclusions.previewRules().forEach(preview => {
+			container.createEl('p', {
+				text: `${preview.label}: ${preview.count} ${preview.count === 1 ? 'note' : 'notes'}`
+			});
+		});
+	}
+
 	async updateStats(container: HTMLElement) {
 		container.empty();
 		try {
 			const stats = await this.plugin.vectorDb.getStats();
 			container.createEl('p', {
-				text: `Indexed notes: ${stats.totalNotes} | Last updated: ${stats.lastUpdated || 'Never'}`
+				text: `Indexed notes: ${stats.totalNotes} (${stats.totalChunks} chunks) | Last updated: ${stats.lastUpdated || 'Never'}`
 			});
 		} catch (error) {
 			container.createEl('p', {
@@ -0,0 +1,527 @@
+export interface Neighbor {
+	id: string;
+	score: number;        // Cosine similarity (vectors are normalized on insert)
+}
+
+export type IndexMode = 'auto' | 'exact' | 'hnsw';
+
+export type IdFilter = (id: string) => boolean;
+
+/**
+ * Nearest-neighbour index over normalized vectors. Implementations only see
+ * ids and vectors; entry metadata stays in the VectorDatabase and reaches
+ * the index as an id filter.
+ */
+export interface VectorIndex {
+	add(id: string, vector: Float32Array): void;
+	remove(id: string): void;
+	search(query: Float32Array, k: number, filter?: IdFilter): Neighbor[];
+	size(): number;
+	clear(): void;
+}
+
+// Vault size from which 'auto' mode switches from exact search to HNSW
+const HNSW_THRESHOLD = 5000;
+
+// Time slice for building the graph in the background without freezing the UI
+const BUILD_SLICE_MS = 50;
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = new Float32Array(vector.length);
+	let norm = 0;
+	for (let i = 0; i < vector.length; i++) {
+		norm += vector[i] * vector[i];
+	}
+
+	norm = Math.sqrt(norm);
+	if (norm === 0) {
+		return result;
+	}
+
+	for (let i = 0; i < vector.length; i++) {
+		result[i] = vector[i] / norm;
+	}
+	return result;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+	if (a.length !== b.length) {
+		return 0;
+	}
+
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+/**
+ * Binary heap ordered by `compare` (negative when `a` should be popped first).
+ */
+class Heap<T> {
+	private items: T[] = [];
+	private compare: (a: T, b: T) => number;
+
+	constructor(compare: (a: T, b: T) => number) {
+		this.compare = compare;
+	}
+
+	get length(): number {
+		return this.items.length;
+	}
+
+	peek(): T | undefined {
+		return this.items[0];
+	}
+
+	push(item: T) {
+		const items = this.items;
+		items.push(item);
+		let i = items.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (this.compare(items[i], items[parent]) >= 0) {
+				break;
+			}
+			[items[i], items[parent]] = [items[parent], items[i]];
+			i = parent;
+		}
+	}
+
+	pop(): T | undefined {
+		const items = this.items;
+		const top = items[0];
+		const last = items.pop();
+		if (items.length > 0 && last !== undefined) {
+			items[0] = last;
+			let i = 0;
+			for (;;) {
+				const left = i * 2 + 1;
+				const right = left + 1;
+				let next = i;
+				if (left < items.length && this.compare(items[left], items[next]) < 0) {
+					next = left;
+				}
+				if (right < items.length && this.compare(items[right], items[next]) < 0) {
+					next = right;
+				}
+				if (next === i) {
+					break;
+				}
+				[items[i], items[next]] = [items[next], items[i]];
+				i = next;
+			}
+		}
+		return top;
+	}
+
+	toArray(): T[] {
+		return this.items.slice();
+	}
+}
+
+const worstFirst = (a: Neighbor, b: Neighbor) => a.score - b.score;
+const bestFirst = (a: Neighbor, b: Neighbor) => b.score - a.score;
+
+/**
+ * Brute-force search. Exact, and fast enough for a few thousand vectors.
+ */
+export class ExactIndex implements VectorIndex {
+	private vectors: Map<string, Float32Array> = new Map();
+
+	add(id: string, vector: Float32Array) {
+		this.vectors.set(id, vector);
+	}
+
+	remove(id: string) {
+		this.vectors.delete(id);
+	}
+
+	search(query: Float32Array, k: number, filter?: IdFilter): Neighbor[] {
+		// Keep only the best k in a min-heap instead of sorting every score
+		const top = new Heap<Neighbor>(worstFirst);
+
+		for (const [id, vector] of this.vectors) {
+			if (vector.length !== query.length || (filter && !filter(id))) {
+				continue;
+			}
+
+			const score = dot(query, vector);
+			if (top.length < k) {
+				top.push({ id, score });
+			} else if (score > top.peek()!.score) {
+				top.pop();
+				top.push({ id, score });
+			}
+		}
+
+		return top.toArray().sort(bestFirst);
+	}
+
+	size(): number {
+		return this.vectors.size;
+	}
+
+	clear() {
+		this.vectors.clear();
+	}
+
+	get(id: string): Float32Array | undefined {
+		return this.vectors.get(id);
+	}
+
+	entries(): IterableIterator<[string, Float32Array]> {
+		return this.vectors.entries();
+	}
+}
+
+interface HnswNode {
+	id: string;
+	vector: Float32Array;
+	links: Candidate[][];  // Neighbours per layer (layer 0 first), scored against this node
+	deleted: boolean;
+}
+
+interface Candidate {
+	node: number;
+	score: number;
+}
+
+export interface HnswOptions {
+	m: number;              // Links per node on upper layers (twice that on layer 0)
+	efConstruction: number; // Candidate list size while inserting
+	efSearch: number;       // Candidate list size while searching
+}
+
+const DEFAULT_HNSW_OPTIONS: HnswOptions = {
+	m: 16,
+	efConstruction: 100,
+	efSearch: 64
+};
+
+const candidateWorstFirst = (a: Candidate, b: Candidate) => a.score - b.score;
+const candidateBestFirst = (a: Candidate, b: Candidate) => b.score - a.score;
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin). Removing or
+ * replacing a vector marks its node as deleted; deleted nodes keep routing
+ * searches. The graph never rebuilds itself, the owner replaces it once
+ * needsCompaction() reports that too many deleted nodes piled up.
+ */
+export class HnswIndex implements VectorIndex {
+	private options: HnswOptions;
+	private nodes: HnswNode[] = [];
+	private ids: Map<string, number> = new Map(); // Live id -> node number
+	private entryPoint: number = -1;
+	private maxLevel: number = -1;
+	private deletedCount: number = 0;
+	private levelMultiplier: number;
+
+	constructor(options: Partial<HnswOptions> = {}) {
+		this.options = { ...DEFAULT_HNSW_OPTIONS, ...options };
+		this.levelMultiplier = 1 / Math.log(this.options.m);
+	}
+
+	add(id: string, vector: Float32Array) {
+		this.remove(id);
+
+		const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+		const nodeNumber = this.nodes.length;
+		const node: HnswNode = { id, vector, links: [], deleted: false };
+		for (let l = 0; l <= level; l++) {
+			node.links.push([]);
+		}
+		this.nodes.push(node);
+		this.ids.set(id, nodeNumber);
+
+		if (this.entryPoint < 0) {
+			this.entryPoint = nodeNumber;
+			this.maxLevel = level;
+			return;
+		}
+
+		// Greedy descent through the layers above the new node's level
+		let entry = this.score(vector, this.entryPoint);
+		for (let l = this.maxLevel; l > level; l--) {
+			entry = this.searchLayer(vector, [entry], 1, l)[0];
+		}
+
+		let entries = [entry];
+		for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+			const candidates = this.searchLayer(vector, entries, this.options.efConstruction, l);
+			const maxLinks = l === 0 ? this.options.m * 2 : this.options.m;
+			node.links[l] = this.selectNeighbors(candidates, maxLinks);
+
+			// Link back; an overfull neighbour simply drops its farthest link, running
+			// the full heuristic here would dominate insert time
+			for (const link of node.links[l]) {
+				const neighborLinks = this.nodes[link.node].links[l];
+				neighborLinks.push({ node: nodeNumber, score: link.score });
+				if (neighborLinks.length > maxLinks) {
+					neighborLinks.sort(candidateBestFirst);
+					neighborLinks.pop();
+				}
+			}
+
+			entries = candidates;
+		}
+
+		if (level > this.maxLevel) {
+			this.entryPoint = nodeNumber;
+			this.maxLevel = level;
+		}
+	}
+
+	remove(id: string) {
+		const nodeNumber = this.ids.get(id);
+		if (nodeNumber === undefined) {
+			return;
+		}
+
+		this.nodes[nodeNumber].deleted = true;
+		this.ids.delete(id);
+		this.deletedCount++;
+	}
+
+	// Deleted nodes waste search time and memory beyond this point
+	needsCompaction(): boolean {
+		return this.deletedCount > Math.max(100, this.ids.size / 4);
+	}
+
+	search(query: Float32Array, k: number, filter?: IdFilter): Neighbor[] {
+		if (this.entryPoint < 0 || k <= 0) {
+			return [];
+		}
+
+		let entry = this.score(query, this.entryPoint);
+		for (let l = this.maxLevel; l > 0; l--) {
+			entry = this.searchLayer(query, [entry], 1, l)[0];
+		}
+
+		// Deleted nodes still take up beam slots, so widen it to make up for them
+		// Filtered searches get a wider beam too, but may still return fewer than k
+		const ef = Math.max(this.options.efSearch, k) * (filter ? 4 : 1) + Math.min(this.deletedCount, k);
+		return this.searchLayer(query, [entry], ef, 0)
+			.filter(candidate => !this.nodes[candidate.node].deleted)
+			.filter(candidate => !filter || filter(this.nodes[candidate.node].id))
+			.slice(0, k)
+			.map(candidate => ({ id: this.nodes[candidate.node].id, score: candidate.score }));
+	}
+
+	size(): number {
+		return this.ids.size;
+	}
+
+	clear() {
+		this.nodes = [];
+		this.ids.clear();
+		this.entryPoint = -1;
+		this.maxLevel = -1;
+		this.deletedCount = 0;
+	}
+
+	private score(query: Float32Array, node: number): Candidate {
+		return { node, score: dot(query, this.nodes[node].vector) };
+	}
+
+	private searchLayer(query: Float32Array, entries: Candidate[], ef: number, level: number): Candidate[] {
+		const visited = new Set<number>(entries.map(entry => entry.node));
+		const candidates = new Heap<Candidate>(candidateBestFirst);
+		const results = new Heap<Candidate>(candidateWorstFirst);
+
+		for (const entry of entries) {
+			candidates.push(entry);
+			results.push(entry);
+			if (results.length > ef) {
+				results.pop();
+			}
+		}
+
+		while (candidates.length > 0) {
+			const current = candidates.pop()!;
+			if (results.length >= ef && current.score < results.peek()!.score) {
+				break;
+			}
+
+			const links = this.nodes[current.node].links[level] || [];
+			for (const link of links) {
+				if (visited.has(link.node)) {
+					continue;
+				}
+				visited.add(link.node);
+
+				const candidate = this.score(query, link.node);
+				if (results.length < ef || candidate.score > results.peek()!.score) {
+					candidates.push(candidate);
+					results.push(candidate);
+					if (results.length > ef) {
+						results.pop();
+					}
+				}
+			}
+		}
+
+		return results.toArray().sort(candidateBestFirst);
+	}
+
+	/**
+	 * Neighbour selection heuristic: keep a candidate only if it is closer to
+	 * the base node than to any neighbour already kept, which spreads links
+	 * across clusters. Remaining slots are filled with the closest leftovers.
+	 */
+	private selectNeighbors(candidates: Candidate[], maxLinks: number): Candidate[] {
+		const selected: Candidate[] = [];
+		const skipped: Candidate[] = [];
+
+		for (const candidate of candidates) {
+			if (selected.length >= maxLinks) {
+				break;
+			}
+
+			const vector = this.nodes[candidate.node].vector;
+			const dominated = selected.some(kept => dot(vector, this.nodes[kept.node].vector) > candidate.score);
+			if (dominated) {
+				skipped.push(candidate);
+			} else {
+				selected.push(candidate);
+			}
+		}
+
+		for (const candidate of skipped) {
+			if (selected.length >= maxLinks) {
+				break;
+			}
+			selected.push(candidate);
+		}
+
+		return selected;
+	}
+}
+
+/**
+ * Exact search for small vaults, HNSW once the vault outgrows it. The graph
+ * is built in small time slices in the background; exact search answers
+ * queries until it is ready. A graph worn out by deletions, e.g. after a
+ * re-index, is replaced by a fresh background build the same way.
+ */
+export class AdaptiveIndex implements VectorIndex {
+	private mode: IndexMode;
+	private exact: ExactIndex = new ExactIndex();
+	private hnsw: HnswIndex | null = null;
+	private building: boolean = false;
+
+	constructor(mode: IndexMode = 'auto') {
+		this.mode = mode;
+	}
+
+	setMode(mode: IndexMode) {
+		if (mode === this.mode) {
+			return;
+		}
+		this.mode = mode;
+		if (mode === 'exact') {
+			this.hnsw = null;
+			this.building = false;
+		}
+	}
+
+	add(id: string, vector: Float32Array) {
+		this.exact.add(id, vector);
+		if (this.hnsw) {
+			this.hnsw.add(id, vector);
+		}
+	}
+
+	remove(id: string) {
+		this.exact.remove(id);
+		if (this.hnsw) {
+			this.hnsw.remove(id);
+			this.compactIfNeeded();
+		}
+	}
+
+	/**
+	 * Filtered searches always scan exactly: a graph walk that discards most
+	 * of what it visits can miss matches entirely.
+	 */
+	search(query: Float32Array, k: number, filter?: IdFilter): Neighbor[] {
+		const useHnsw = this.mode === 'hnsw'
+			|| (this.mode === 'auto' && this.exact.size() >= HNSW_THRESHOLD);
+
+		if (filter) {
+			return this.exact.search(query, k, filter);
+		}
+
+		if (useHnsw) {
+			if (this.hnsw && !this.building) {
+				return this.hnsw.search(query, k);
+			}
+			this.startBuild();
+		}
+
+		return this.exact.search(query, k);
+	}
+
+	size(): number {
+		return this.exact.size();
+	}
+
+	/**
+	 * Whether a graph is being built in the background, during which
+	 * searches are answered exactly.
+	 */
+	isBuilding(): boolean {
+		return this.building;
+	}
+
+	clear() {
+		this.exact.clear();
+		this.hnsw = null;
+		this.building = false;
+	}
+
+	private startBuild() {
+		if (this.building) {
+			return;
+		}
+
+		const hnsw = new HnswIndex();
+		const pending = Array.from(this.exact.entries());
+		this.hnsw = hnsw;
+		this.building = true;
+
+		const step = () => {
+			// Abandon the build if the index was cleared or switched to exact meanwhile
+			if (this.hnsw !== hnsw) {
+				return;
+			}
+
+			const deadline = Date.now() + BUILD_SLICE_MS;
+			while (pending.length > 0 && Date.now() < deadline) {
+				const [id, vector] = pending.pop()!;
+				// Vectors added while building already went straight into the graph
+				if (this.exact.get(id) === vector) {
+					hnsw.add(id, vector);
+				}
+			}
+
+			if (pending.length > 0) {
+				window.setTimeout(step, 0);
+			} else {
+				this.building = false;
+				// Removals during a long build can wear out the new graph already
+				this.compactIfNeeded();
+			}
+		};
+
+		window.setTimeout(step, 0);
+	}
+
+	private compactIfNeeded() {
+		if (this.hnsw && !this.building && this.hnsw.needsCompaction()) {
+			this.hnsw = null;
+			this.startBuild();
+		}
+	}
+}
@@ -1,17 +1,43 @@
-import { ItemView, WorkspaceLeaf, Notice, MarkdownRenderer } from 'obsidian';
-import { ChatMessage } from './gemini-service';
-import { SearchResult } from './vector-db';
+import { ItemView, WorkspaceLeaf, Notice, MarkdownRenderer, MarkdownView, Keymap, TFile, DropdownComponent, setIcon } from 'obsidian';
+import { ChatMessage, MessageSource } from './provider';
+import { Conversation } from './conversation-store';
+import { ConfirmModal, ConversationSuggestModal, TextInputModal } from './conversation-modals';
+import { CONTEXT_MODE_NAMES, ContextMode, ContextScope, ScopeSelection, getScopePaths } from './context-scope';
+import { SearchFilter, SearchResult, VectorEntry, mergeRankings } from './vector-db';
+import { describeFilter, parseQuery } from './query-parser';
+import { expandWithLinks } from './graph-expansion';
+import { BudgetBreakdown, ContextItem, buildContext } from './context-builder';
+import { RewrittenQuery, rewriteQuery } from './query-rewriter';
+import { rerank } from './reranker';
 
 export const VIEW_TYPE_GEMINI_CHAT = 'gemini-chat-view';
 
+// Minimum time between markdown re-renders while an answer streams in
+const RENDER_INTERVAL_MS = 100;
+
+interface ResolvedScope {
+	paths: string[] | null;    // Notes to search, null for the whole vault
+	file: TFile | null;
+	selection?: ScopeSelection;
+}
+
+// Citation markers the system prompt asks the model to use
+const CITATION_REGEX = /\[Note (\d+)\]/gi;
+
 export class ChatView extends ItemView {
 	private plugin: any;
-	private messages: ChatMessage[] = [];
+	private conversation: Conversation;
+	private messages: ChatMessage[] = [];  // The current conversation's messages
+	private titleEl: HTMLElement;
+	private contextScope: ContextScope = { mode: 'vault' };
+	private scopeDropdown: DropdownComponent | null = null;
+	private scopeLabel: HTMLElement;
 	private chatContainer: HTMLElement;
 	private inputContainer: HTMLElement;
 	private inputField: HTMLTextAreaElement;
 	private sendButton: HTMLButtonElement;
 	private isProcessing: boolean = false;
+	private abortController: AbortController | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: any) {
 		super(leaf);
@@ -40,25 +66,60 @@ export class ChatView extends ItemView {
 		this.createChatArea(container);
 		this.createInputArea(container);
 
-		// Load chat history if exists
-		this.loadChatHistory();
+		// Keep the scope label in sync with the open note
+		this.registerEvent(this.app.workspace.on('file-open', () => this.updateScopeLabel()));
+
+		// Continue the most recent conversation
+		await this.plugin.conversations.load();
+		const recent = this.plugin.conversations.list()[0];
+		if (recent) {
+			await this.switchConversation(recent.id);
+		} else {
+			this.startConversation();
+		}
 	}
 
 	private createHeader(container: HTMLElement) {
 		const header = container.createDiv('gemini-chat-header');
 
-		// Title
-		const title = header.createEl('h4', { text: 'Chat with your notes' });
+		// Title and conversation actions
+		const titleRow = header.createDiv('gemini-conversation-bar');
+		this.titleEl = titleRow.createEl('h4', { text: 'Chat with your notes' });
+
+		const conversationActions = titleRow.createDiv('gemini-conversation-actions');
+		this.addIconButton(conversationActions, 'history', 'Past conversations', () => this.openConversationList());
+		this.addIconButton(conversationActions, 'file-output', 'Export conversation to a note', () => this.exportConversation());
+		this.addIconButton(conversationActions, 'pencil', 'Rename conversation', () => this.renameConversation());
+		this.addIconButton(conversationActions, 'trash', 'Delete conversation', () => this.deleteConversation());
+
+		// Context scope
+		const scopeRow = header.createDiv('gemini-scope-bar');
+		scopeRow.createSpan({ cls: 'gemini-scope-caption', text: 'Context:' });
+		this.scopeDropdown = new DropdownComponent(scopeRow);
+		Object.keys(CONTEXT_MODE_NAMES).forEach(mode => this.scopeDropdown!.addOption(mode, CONTEXT_MODE_NAMES[mode]));
+		this.scopeDropdown
+			.setValue(this.contextScope.mode)
+			.onChange(value => {
+				// Picking a mode by hand follows the open note again
+				this.contextScope = { mode: value as ContextMode };
+				this.updateScopeLabel();
+			});
+		this.scopeLabel = scopeRow.createSpan('gemini-scope-target');
+		this.updateScopeLabel();
 
 		// Action buttons
 		const actions = header.createDiv('gemini-chat-actions');
 
-		// Clear chat button
-		const clearBtn = actions.createEl('button', {
-			text: 'Clear Chat',
+		// New conversation button
+		const newBtn = actions.createEl('button', {
+			text: 'New Chat',
 			cls: 'mod-cta'
 		});
-		clearBtn.onclick = () => this.clearChat();
+		newBtn.onclick = () => {
+			if (this.canChangeConversation()) {
+				this.startConversation();
+			}
+		};
 
 		// Index status
 		const indexBtn = actions.createEl('button', {
@@ -69,10 +130,9 @@ export class ChatView extends ItemView {
 			indexBtn.disabled = true;
 			indexBtn.textContent = 'Indexing...';
 			try {
-				const count = await this.plugin.indexer.indexAllNotes();
-				new Notice(`Indexed ${count} notes`);
+				await this.plugin.indexer.indexAllNotes();
 			} catch (error) {
-				new Notice('Indexing failed');
+				// Already logged and shown by the indexer
 			} finally {
 				indexBtn.disabled = false;
 				indexBtn.textContent = 'Index Notes';
@@ -80,13 +140,17 @@ export class ChatView extends ItemView {
 		};
 	}
 
+	private addIconButton(container: HTMLElement, icon: string, label: string, onClick: () => void) {
+		const button = container.createEl('button', {
+			cls: 'clickable-icon gemini-icon-button',
+			attr: { 'aria-label': label }
+		});
+		setIcon(button, icon);
+		button.onclick = onClick;
+	}
+
 	private createChatArea(container: HTMLElement) {
 		this.chatContainer = container.createDiv('gemini-chat-messages');
-
-		// Add welcome message if no messages
-		if (this.messages.length === 0) {
-			this.addWelcomeMessage();
-		}
 	}
 
 	private createInputArea(container: HTMLElement) {
@@ -118,7 +182,14 @@ export class ChatView extends ItemView {
 			text: 'Send',
 			cls: 'mod-cta gemini-send-button'
 		});
-		this.sendButton.onclick = () => this.sendMessage();
+		this.sendButton.onclick = () => {
+			// While an answer is being generated the button stops it
+			if (this.isProcessing) {
+				this.stopGeneration();
+			} else {
+				this.sendMessage();
+			}
+		};
 	}
 
 	private addWelcomeMessage() {
@@ -135,16 +206,23 @@ export class ChatView extends ItemView {
 			return;
 		}
 
-		// Check if API key is configured
-		if (!this.plugin.settings.geminiApiKey) {
-			new Notice('Please configure your Gemini API key in settings');
+		// Check the provider is configured
+		if (!this.plugin.provider.isConfigured()) {
+			new Notice(`Please configure ${this.plugin.provider.name} in settings`);
+			return;
+		}
+
+		// Work out which notes the question is about
+		const scope = this.resolveScope();
+		if (!scope) {
 			return;
 		}
 
 		this.isProcessing = true;
+		this.abortController = new AbortController();
+		const signal = this.abortController.signal;
 		this.inputField.disabled = true;
-		this.sendButton.disabled = true;
-		this.sendButton.textContent = 'Processing...';
+		this.sendButton.textContent = 'Stop';
 
 		// Add user message to chat
 		this.addMessage('user', input);
@@ -152,58 +230,303 @@ export class ChatView extends ItemView {
 		this.inputField.style.height = 'auto';
 
 		try {
-			// Generate embedding for the query
-			const queryEmbedding = await this.plugin.geminiService.generateEmbedding(input);
-
-			// Search for relevant notes
-			const searchResults = await this.plugin.vectorDb.search(
-				queryEmbedding,
-				this.plugin.settings.topK || 5
-			);
-
-			// Extract context from search results
-			const context = this.extractContext(searchResults);
+			const items = scope.selection
+				? this.selectionContext(scope.file, scope.selection)
+				: await this.retrieveContext(input, scope.paths);
+
+			// Stopped while searching, nothing was generated yet, but the
+			// question is still saved below
+			if (!signal.aborted) {
+				// Fit the notes and the history into the token budget
+				const { context, sources, messages, breakdown } = buildContext(items, this.messages, this.plugin.settings.contextTokenBudget);
+				if (this.plugin.settings.showDebugInfo) {
+					this.addBudgetInfo(breakdown);
+				}
 
-			// Show which notes were found (if debug mode)
-			if (this.plugin.settings.showDebugInfo && searchResults.length > 0) {
-				this.addDebugInfo(searchResults);
+				// Stream the response into the chat as it is generated
+				const response = await this.streamResponse(messages, context, sources, signal);
+				if (response) {
+					this.messages.push({ role: 'assistant', content: response, sources });
+				}
 			}
 
-			// Get response from Gemini
-			const response = await this.plugin.geminiService.chat(
-				this.messages,
-				context
-			);
-
-			// Add assistant response
-			this.addMessage('assistant', response);
-
 		} catch (error) {
 			console.error('Chat error:', error);
-			this.addMessage('assistant', `I encountered an error: ${error.message}`);
+			this.displayMessage('assistant', `I encountered an error: ${error.message}`);
 			new Notice('Chat failed: ' + error.message);
 		} finally {
 			this.isProcessing = false;
+			this.abortController = null;
 			this.inputField.disabled = false;
-			this.sendButton.disabled = false;
 			this.sendButton.textContent = 'Send';
 			this.inputField.focus();
 		}
 
-		// Save chat history
-		this.saveChatHistory();
+		// Save the conversation
+		await this.saveConversation();
+	}
+
+	private stopGeneration() {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+	}
+
+	/**
+	 * Search the index for the question, limited to the scope's notes.
+	 */
+	private async retrieveContext(input: string, scopePaths: string[] | null): Promise<ContextItem[]> {
+		// Split inline filters (tag:, folder:, since:, ...) from the question
+		const query = parseQuery(input);
+		const queryText = query.text || input;
+		let filter = query.filter || undefined;
+		if (scopePaths) {
+			filter = { ...(filter || {}), notePaths: scopePaths };
+		}
+
+		// Turn follow-ups into standalone queries, using the earlier turns
+		const history = this.messages.slice(0, -1);
+		let rewritten: RewrittenQuery | null = null;
+		if (this.plugin.settings.queryRewriting && query.text && (history.length > 0 || this.plugin.settings.maxSubQueries > 0)) {
+			rewritten = await rewriteQuery(this.plugin.provider, history, queryText, this.plugin.settings.maxSubQueries);
+		}
+		const queries = rewritten ? [rewritten.query].concat(rewritten.subQueries) : [queryText];
+
+		// Generate embeddings for the queries
+		const embeddings: number[][] = await Promise.all(queries.map(text => this.plugin.provider.embedQuery(text)));
+		const queryEmbedding = embeddings[0];
+
+		// Search for relevant notes, merging the rankings of sub-queries.
+		// With re-ranking, a larger pool is fetched and narrowed down after.
+		const topK = this.plugin.settings.topK || 5;
+		const method = this.plugin.settings.rerankMethod;
+		const poolSize = method !== 'none' ? Math.max(topK, this.plugin.settings.rerankPoolSize) : topK;
+		const rankings = await Promise.all(queries.map((text, i) => this.searchNotes(text, embeddings[i], poolSize, filter)));
+		let searchResults = mergeRankings(rankings, poolSize);
+
+		if (method !== 'none' && searchResults.length > topK) {
+			searchResults = await rerank(
+				method,
+				this.plugin.provider,
+				queries[0],
+				queryEmbedding,
+				searchResults,
+				topK,
+				this.plugin.settings.mmrLambda
+			);
+		}
+
+		// Pull in notes linked to or from the hits
+		if (this.plugin.settings.graphExpansion) {
+			searchResults = await expandWithLinks(this.app, this.plugin.vectorDb, searchResults, queryEmbedding, {
+				depth: this.plugin.settings.graphDepth,
+				budget: this.plugin.settings.graphBudget,
+				boost: this.plugin.settings.graphBoost
+			}, filter);
+		}
+
+		// Show which notes were found (if debug mode)
+		if (this.plugin.settings.showDebugInfo && (searchResults.length > 0 || filter || rewritten)) {
+			this.addDebugInfo(searchResults, filter, rewritten);
+		}
+
+		return this.toContextItems(searchResults);
+	}
+
+	private searchNotes(queryText: string, queryEmbedding: number[], topK: number, filter?: SearchFilter): Promise<SearchResult[]> {
+		return this.plugin.settings.hybridSearch
+			? this.plugin.vectorDb.hybridSearch(
+				queryText,
+				queryEmbedding,
+				topK,
+				{ groupByNote: true, keywordWeight: this.plugin.settings.keywordWeight, filter }
+			)
+			: this.plugin.vectorDb.search(
+				queryEmbedding,
+				topK,
+				{ groupByNote: true, filter }
+			);
+	}
+
+	/**
+	 * Answer from the selected passage alone, without searching.
+	 */
+	private selectionContext(file: TFile | null, selection: ScopeSelection): ContextItem[] {
+		const chunks = [{ text: selection.text, startLine: selection.startLine, endLine: selection.endLine }];
+		if (!file) {
+			return [{ header: 'Selected text:', chunks }];
+		}
+
+		return [{
+			header: `Note: "${file.basename}" (${file.path}), selected lines ${selection.startLine + 1}-${selection.endLine + 1}`,
+			source: {
+				path: file.path,
+				title: file.basename,
+				similarity: 1,
+				startLine: selection.startLine,
+				endLine: selection.endLine
+			},
+			chunks
+		}];
+	}
+
+	/**
+	 * Pre-scope the chat, e.g. from a command or context menu.
+	 */
+	setScope(scope: ContextScope) {
+		this.contextScope = scope;
+		if (this.scopeDropdown) {
+			this.scopeDropdown.setValue(scope.mode);
+			this.updateScopeLabel();
+		}
+		if (this.inputField) {
+			this.inputField.focus();
+		}
+	}
+
+	private resolveScope(): ResolvedScope | null {
+		const mode = this.contextScope.mode;
+		const file = this.contextScope.file || this.app.workspace.getActiveFile();
+
+		if (mode === 'selection') {
+			const selection = this.contextScope.selection || this.getEditorSelection();
+			if (!selection) {
+				new Notice('Select some text in a note first');
+				return null;
+			}
+			return { paths: null, file: this.contextScope.file || file, selection };
+		}
+
+		if ((mode === 'note' || mode === 'linked' || (mode === 'folder' && this.contextScope.folderPath === undefined)) && !file) {
+			new Notice(`Open a note to use the "${CONTEXT_MODE_NAMES[mode]}" context`);
+			return null;
+		}
+
+		return { paths: getScopePaths(this.app, mode, file, this.contextScope.folderPath), file };
+	}
+
+	private getEditorSelection(): ScopeSelection | null {
+		// The chat has focus, so look up the editor the user was last in
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		const view = leaf ? leaf.view : null;
+		if (!(view instanceof MarkdownView)) {
+			return null;
+		}
+
+		const text = view.editor.getSelection();
+		if (!text.trim()) {
+			return null;
+		}
+
+		return {
+			text,
+			startLine: view.editor.getCursor('from').line,
+			endLine: view.editor.getCursor('to').line
+		};
+	}
+
+	private updateScopeLabel() {
+		if (!this.scopeLabel) {
+			return;
+		}
+
+		const file = this.contextScope.file || this.app.workspace.getActiveFile();
+		let label = '';
+		switch (this.contextScope.mode) {
+			case 'note':
+			case 'linked':
+				label = file ? file.basename : 'no note open';
+				break;
+			case 'folder':
+				if (this.contextScope.folderPath !== undefined) {
+					label = this.contextScope.folderPath || '/';
+				} else {
+					label = file && file.parent ? (file.parent.path === '/' ? '/' : file.parent.path) : 'no note open';
+				}
+				break;
+			case 'selection':
+				label = this.contextScope.selection
+					? `${this.contextScope.selection.text.length} characters${this.contextScope.file ? ` from ${this.contextScope.file.basename}` : ''}`
+					: 'selected text';
+				break;
+		}
+
+		this.scopeLabel.setText(label);
+		this.scopeLabel.toggleClass('is-pinned', !!(this.contextScope.file || this.contextScope.folderPath !== undefined || this.contextScope.selection));
+	}
+
+	/**
+	 * Render the answer progressively, re-rendering the markdown at most every
+	 * RENDER_INTERVAL_MS. Resolves with the full answer, or the partial answer
+	 * when stopped.
+	 */
+	private async streamResponse(messages: ChatMessage[], context: string[], sources: MessageSource[], signal: AbortSignal): Promise<string> {
+		const messageDiv = this.chatContainer.createDiv('gemini-message gemini-assistant-message');
+		messageDiv.createDiv({ cls: 'gemini-message-role', text: 'Assistant' });
+		const contentDiv = messageDiv.createDiv('gemini-message-content gemini-streaming');
+
+		let answer = '';
+		let renderTimer: number | null = null;
+
+		const render = (suffix: string = '') => {
+			renderTimer = null;
+			// Only follow the answer if the user has not scrolled up to read
+			const atBottom = this.chatContainer.scrollHeight - this.chatContainer.scrollTop - this.chatContainer.clientHeight < 40;
+			contentDiv.empty();
+			MarkdownRenderer.renderMarkdown(answer + suffix, contentDiv, '', this);
+			if (atBottom) {
+				this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+			}
+		};
+
+		try {
+			answer = await this.plugin.provider.streamChat(messages, context, (token: string) => {
+				answer += token;
+				if (renderTimer === null) {
+					renderTimer = window.setTimeout(render, RENDER_INTERVAL_MS);
+				}
+			}, signal);
+		} catch (error) {
+			// The error is reported as its own message
+			messageDiv.remove();
+			throw error;
+		} finally {
+			if (renderTimer !== null) {
+				window.clearTimeout(renderTimer);
+			}
+		}
+
+		if (!answer) {
+			messageDiv.remove();
+			return '';
+		}
+
+		// Final render with clickable citations
+		contentDiv.removeClass('gemini-streaming');
+		contentDiv.empty();
+		await this.renderAssistantContent(contentDiv, answer + (signal.aborted ? '\n\n*(stopped)*' : ''), sources);
+		this.renderSources(messageDiv, sources);
+		this.renderMessageActions(messageDiv, { role: 'assistant', content: answer, sources });
+		return answer;
 	}
 
 	private addMessage(role: 'user' | 'assistant', content: string) {
 		// Add to messages array
 		this.messages.push({ role, content });
+		this.displayMessage(role, content);
+	}
 
+	/**
+	 * Show a message in the view without adding it to the conversation, so
+	 * errors are neither saved nor sent back to the model.
+	 */
+	private displayMessage(role: 'user' | 'assistant', content: string) {
 		// Create message element
 		const messageDiv = this.chatContainer.createDiv(`gemini-message gemini-${role}-message`);
 
 		// Add role label
 		const roleLabel = messageDiv.createDiv('gemini-message-role');
-		roleLabel.textContent = role === 'user' ? 'You' : 'Gemini';
+		roleLabel.textContent = role === 'user' ? 'You' : 'Assistant';
 
 		// Add message content
 		const contentDiv = messageDiv.createDiv('gemini-message-content');
@@ -219,86 +542,432 @@ export class ChatView extends ItemView {
 		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
 	}
 
-	private addDebugInfo(results: SearchResult[]) {
+	private async renderAssistantContent(contentDiv: HTMLElement, content: string, sources: MessageSource[]) {
+		await MarkdownRenderer.renderMarkdown(content, contentDiv, '', this);
+		if (sources.length > 0) {
+			this.linkCitations(contentDiv, sources);
+		}
+	}
+
+	/**
+	 * Turn [Note N] markers in rendered text into links to the cited note.
+	 */
+	private linkCitations(container: HTMLElement, sources: MessageSource[]) {
+		const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+		const textNodes: Text[] = [];
+		while (walker.nextNode()) {
+			textNodes.push(walker.currentNode as Text);
+		}
+
+		textNodes.forEach(node => {
+			const text = node.nodeValue || '';
+			const parent = node.parentElement;
+			if (!text.match(CITATION_REGEX) || (parent && parent.closest('code, pre, a'))) {
+				return;
+			}
+
+			const fragment = document.createDocumentFragment();
+			let last = 0;
+			text.replace(CITATION_REGEX, (match: string, number: string, offset: number) => {
+				const source = sources[parseInt(number, 10) - 1];
+				if (source) {
+					fragment.appendChild(document.createTextNode(text.substring(last, offset)));
+					fragment.appendChild(this.createSourceLink(source, match, 'gemini-citation'));
+					last = offset + match.length;
+				}
+				return match;
+			});
+			fragment.appendChild(document.createTextNode(text.substring(last)));
+			node.replaceWith(fragment);
+		});
+	}
+
+	private renderSources(messageDiv: HTMLElement, sources: MessageSource[]) {
+		if (sources.length === 0) {
+			return;
+		}
+
+		const details = messageDiv.createEl('details', { cls: 'gemini-sources' });
+		details.createEl('summary', { text: `Sources (${sources.length})` });
+
+		// Numbered in the same order as the [Note N] markers
+		const list = details.createEl('ol');
+		sources.forEach(source => {
+			const item = list.createEl('li');
+			item.appendChild(this.createSourceLink(source, source.title));
+			if (source.headings && source.headings.length > 0) {
+				item.createSpan({ cls: 'gemini-source-section', text: ` › ${source.headings.join(' › ')}` });
+			}
+			item.createDiv({
+				cls: 'gemini-source-meta',
+				text: `${source.path} · similarity ${source.similarity.toFixed(3)}`
+			});
+		});
+	}
+
+	private createSourceLink(source: MessageSource, text: string, cls: string = ''): HTMLElement {
+		const link = createEl('a', {
+			cls: `internal-link ${cls}`.trim(),
+			text,
+			href: linkTarget(source),
+			attr: { 'data-href': linkTarget(source) }
+		});
+
+		link.addEventListener('click', (evt) => {
+			evt.preventDefault();
+			this.openSource(source, evt);
+		});
+
+		// Page preview on hover, like links in notes
+		link.addEventListener('mouseover', (evt) => {
+			this.app.workspace.trigger('hover-link', {
+				event: evt,
+				source: VIEW_TYPE_GEMINI_CHAT,
+				hoverParent: this,
+				targetEl: link,
+				linktext: linkTarget(source)
+			});
+		});
+
+		return link;
+	}
+
+	private async openSource(source: MessageSource, evt: MouseEvent) {
+		const file = this.app.vault.getAbstractFileByPath(source.path);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${source.path}`);
+			return;
+		}
+
+		if (source.fileType && source.fileType !== 'markdown') {
+			// PDFs open at the page through the link, canvases have no lines to scroll to
+			await this.app.workspace.openLinkText(linkTarget(source), '', Keymap.isModEvent(evt));
+			return;
+		}
+
+		// Scroll to the chunk the answer was based on
+		const leaf = this.app.workspace.getLeaf(Keymap.isModEvent(evt));
+		await leaf.openFile(file, { eState: { line: source.startLine || 0 } });
+	}
+
+	private toContextItems(results: SearchResult[]): ContextItem[] {
+		return results.map(result => ({
+			header: `${describeFileType(result.note)}: "${result.note.title}" (${result.note.path})`,
+			// Keep only what the citations need, not the chunk text or embeddings
+			source: {
+				path: result.note.path,
+				title: result.note.title,
+				similarity: result.similarity,
+				headings: result.note.headings,
+				fileType: result.note.fileType,
+				page: result.note.page,
+				startLine: result.note.startLine,
+				endLine: result.note.endLine
+			},
+			chunks: (result.chunks || [result]).map(chunk => ({
+				text: chunk.note.content,
+				startLine: chunk.note.startLine,
+				endLine: chunk.note.endLine
+			}))
+		}));
+	}
+
+	private addDebugInfo(results: SearchResult[], filter?: SearchFilter, rewritten?: RewrittenQuery | null) {
 		const debugDiv = this.chatContainer.createDiv('gemini-debug-info');
+		if (rewritten) {
+			debugDiv.createEl('div', {
+				cls: 'gemini-debug-filter',
+				text: `Search query: ${rewritten.query}`
+			});
+			if (rewritten.subQueries.length > 0) {
+				debugDiv.createEl('div', {
+					cls: 'gemini-debug-filter',
+					text: `Sub-queries: ${rewritten.subQueries.join(' · ')}`
+				});
+			}
+		}
+		if (filter) {
+			debugDiv.createEl('div', {
+				cls: 'gemini-debug-filter',
+				text: `Filter: ${describeFilter(filter)}`
+			});
+		}
 		debugDiv.createEl('div', {
 			cls: 'gemini-debug-title',
-			text: 'Found relevant notes:'
+			text: results.length > 0 ? 'Found relevant notes:' : 'No notes matched the filter'
 		});
 
 		const list = debugDiv.createEl('ul');
 		results.forEach(result => {
 			const item = list.createEl('li');
+			const chunkCount = result.chunks ? result.chunks.length : 1;
+			const section = result.note.headings && result.note.headings.length > 0
+				? ` › ${result.note.headings.join(' › ')}`
+				: '';
 			item.createEl('span', {
-				text: `${result.note.title} (similarity: ${result.similarity.toFixed(3)})`
+				text: `${result.note.title}${section} (similarity: ${result.similarity.toFixed(3)}, chunks: ${chunkCount})`
 			});
+
+			if (result.relevance !== undefined) {
+				item.createEl('span', {
+					cls: 'gemini-debug-retrievers',
+					text: `relevance ${result.relevance}/10`
+				});
+			}
+
+			if (result.retrievers) {
+				item.createEl('span', {
+					cls: 'gemini-debug-retrievers',
+					text: this.describeRetrievers(result)
+				});
+			}
+
+			if (result.expansion) {
+				item.createEl('span', {
+					cls: 'gemini-debug-retrievers',
+					text: this.describeExpansion(result)
+				});
+			}
 		});
 	}
 
-	private extractContext(results: SearchResult[]): string[] {
-		return results.map(result => {
-			const noteInfo = `Note: "${result.note.title}" (${result.note.id})\n`;
-			const content = result.note.content;
-			return noteInfo + content;
+	private addBudgetInfo(breakdown: BudgetBreakdown) {
+		const debugDiv = this.chatContainer.createDiv('gemini-debug-info');
+		debugDiv.createEl('div', {
+			cls: 'gemini-debug-title',
+			text: `Token budget: ~${breakdown.total} of ${breakdown.budget} (estimated)`
+		});
+
+		const history = breakdown.history;
+		const notes = breakdown.notes;
+		const list = debugDiv.createEl('ul');
+		list.createEl('li', { text: `System prompt: ${breakdown.system}` });
+		list.createEl('li', { text: `Question: ${breakdown.question}` });
+		list.createEl('li', {
+			text: `History: ${history.tokens} (${history.kept} turns kept, ${history.shortened} shortened, ${history.dropped} dropped)`
+		});
+		list.createEl('li', {
+			text: `Notes: ${notes.tokens} (${notes.chunks} chunks from ${notes.notes} notes, ${notes.duplicates} duplicates removed, ${notes.truncated} truncated, ${notes.dropped} notes left out)`
 		});
 	}
 
-	private clearChat() {
-		this.messages = [];
-		this.chatContainer.empty();
-		this.addWelcomeMessage();
-		this.saveChatHistory();
+	private describeExpansion(result: SearchResult): string {
+		const expansion = result.expansion!;
+		const seed = expansion.seed.replace(/\.md$/, '').split('/').pop();
+		const relation = expansion.relation === 'outlink' ? 'linked from' : 'links to';
+		const via = expansion.hops === 1 ? `${relation} ${seed}` : `${expansion.hops} hops from ${seed}`;
+		return `graph: ${via}, boost +${expansion.boost.toFixed(3)}`;
 	}
 
-	private async saveChatHistory() {
+	private describeRetrievers(result: SearchResult): string {
+		// Best rank per retriever across all of the note's matching chunks
+		const ranks: { [retriever: string]: number } = {};
+		(result.chunks || [result]).forEach(chunk => {
+			(chunk.retrievers || []).forEach(retriever => {
+				const rank = chunk.ranks ? chunk.ranks[retriever] : undefined;
+				if (rank !== undefined && (ranks[retriever] === undefined || rank < ranks[retriever])) {
+					ranks[retriever] = rank;
+				}
+			});
+		});
+
+		return Object.keys(ranks).map(retriever => `${retriever} #${ranks[retriever]}`).join(', ');
+	}
+
+	private renderMessageActions(messageDiv: HTMLElement, message: ChatMessage) {
+		const actions = messageDiv.createDiv('gemini-message-actions');
+		this.addIconButton(actions, 'file-input', 'Insert at cursor in the active note', () => this.insertIntoActiveNote(message));
+	}
+
+	getConversation(): Conversation {
+		return this.conversation;
+	}
+
+	getLastAnswer(): ChatMessage | null {
+		for (let i = this.messages.length - 1; i >= 0; i--) {
+			if (this.messages[i].role === 'assistant') {
+				return this.messages[i];
+			}
+		}
+		return null;
+	}
+
+	async exportConversation() {
+		if (this.messages.length === 0) {
+			new Notice('Nothing to export yet');
+			return;
+		}
+
 		try {
-			const data = {
-				messages: this.messages,
-				timestamp: Date.now()
-			};
-			await this.plugin.saveData({ chatHistory: data });
+			const file = await this.plugin.exporter.exportConversation(this.conversation);
+			new Notice(`Exported to ${file.path}`);
 		} catch (error) {
-			console.error('Failed to save chat history:', error);
+			console.error('Export failed:', error);
+			new Notice(`Export failed: ${error.message}`);
 		}
 	}
 
-	private async loadChatHistory() {
+	private insertIntoActiveNote(message: ChatMessage) {
+		// The chat has focus, so look up the editor the user was last in
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		const view = leaf ? leaf.view : null;
+		if (!(view instanceof MarkdownView)) {
+			new Notice('Open a note to insert the answer into');
+			return;
+		}
+
+		this.plugin.exporter.insertAnswer(view.editor, view.file, message);
+		new Notice(`Inserted into ${view.file ? view.file.basename : 'the note'}`);
+	}
+
+	private canChangeConversation(): boolean {
+		if (this.isProcessing) {
+			new Notice('Wait for the current answer to finish or stop it first');
+			return false;
+		}
+		return true;
+	}
+
+	private startConversation() {
+		this.conversation = this.plugin.conversations.create(this.plugin.provider.getChatModelId());
+		this.messages = this.conversation.messages;
+		this.renderConversation();
+	}
+
+	private async switchConversation(id: string) {
+		const conversation = await this.plugin.conversations.get(id);
+		if (!conversation) {
+			new Notice('Conversation not found');
+			this.startConversation();
+			return;
+		}
+
+		this.conversation = conversation;
+		this.messages = conversation.messages;
+		this.renderConversation();
+	}
+
+	private renderConversation() {
+		this.chatContainer.empty();
+		this.updateTitle();
+
+		if (this.messages.length === 0) {
+			this.addWelcomeMessage();
+		} else {
+			this.messages.forEach(msg => {
+				this.renderMessage(msg);
+			});
+		}
+
+		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+	}
+
+	private updateTitle() {
+		// Unsaved conversations have no title of their own yet
+		this.titleEl.setText(this.messages.length > 0 ? this.conversation.title : 'Chat with your notes');
+	}
+
+	private async saveConversation() {
+		if (this.messages.length === 0) {
+			return;
+		}
+
 		try {
-			const data = await this.plugin.loadData();
-			if (data && data.chatHistory && data.chatHistory.messages) {
-				this.messages = data.chatHistory.messages;
-
-				// Re-render messages
-				this.chatContainer.empty();
-				if (this.messages.length === 0) {
-					this.addWelcomeMessage();
-				} else {
-					this.messages.forEach(msg => {
-						this.renderMessage(msg);
-					});
-				}
-			}
+			this.conversation.model = this.plugin.provider.getChatModelId();
+			await this.plugin.conversations.save(this.conversation);
+			this.updateTitle();
 		} catch (error) {
-			console.error('Failed to load chat history:', error);
+			console.error('Failed to save conversation:', error);
 		}
 	}
 
+	private openConversationList() {
+		if (!this.canChangeConversation()) {
+			return;
+		}
+
+		new ConversationSuggestModal(this.app, this.plugin.conversations, (summary) => {
+			this.switchConversation(summary.id);
+		}).open();
+	}
+
+	private renameConversation() {
+		if (this.messages.length === 0) {
+			new Notice('Ask a question first, then the conversation can be renamed');
+			return;
+		}
+
+		new TextInputModal(this.app, 'Rename conversation', this.conversation.title, async (title) => {
+			await this.plugin.conversations.rename(this.conversation.id, title);
+			this.updateTitle();
+		}).open();
+	}
+
+	private deleteConversation() {
+		if (!this.canChangeConversation()) {
+			return;
+		}
+
+		if (this.messages.length === 0) {
+			// Nothing saved yet
+			this.startConversation();
+			return;
+		}
+
+		new ConfirmModal(this.app, `Delete "${this.conversation.title}"? This cannot be undone.`, 'Delete', async () => {
+			await this.plugin.conversations.delete(this.conversation.id);
+
+			const recent = this.plugin.conversations.list()[0];
+			if (recent) {
+				await this.switchConversation(recent.id);
+			} else {
+				this.startConversation();
+			}
+		}).open();
+	}
+
 	private renderMessage(message: ChatMessage) {
 		const messageDiv = this.chatContainer.createDiv(`gemini-message gemini-${message.role}-message`);
 
 		const roleLabel = messageDiv.createDiv('gemini-message-role');
-		roleLabel.textContent = message.role === 'user' ? 'You' : 'Gemini';
+		roleLabel.textContent = message.role === 'user' ? 'You' : 'Assistant';
 
 		const contentDiv = messageDiv.createDiv('gemini-message-content');
 
 		if (message.role === 'assistant') {
-			MarkdownRenderer.renderMarkdown(message.content, contentDiv, '', this);
+			const sources = message.sources || [];
+			this.renderAssistantContent(contentDiv, message.content, sources);
+			this.renderSources(messageDiv, sources);
+			this.renderMessageActions(messageDiv, message);
 		} else {
 			contentDiv.textContent = message.content;
 		}
 	}
 
 	async onClose() {
-		// Cleanup if needed
+		// Commands must not act on a closed view
+		if (this.plugin.chatView === this) {
+			this.plugin.chatView = null;
+		}
+	}
+}
+
+/**
+ * Link text that opens a source, at the cited page for PDFs.
+ */
+function linkTarget(source: MessageSource): string {
+	return source.fileType === 'pdf' && source.page ? `${source.path}#page=${source.page}` : source.path;
+}
+
+function describeFileType(entry: VectorEntry): string {
+	switch (entry.fileType) {
+		case 'pdf':
+			return entry.page ? `PDF, page ${entry.page}` : 'PDF';
+		case 'canvas':
+			return 'Canvas';
+		case 'image':
+			return 'Image';
+		default:
+			return 'Note';
 	}
-}
\ No newline at end of file
+}
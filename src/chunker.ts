@@ -0,0 +1,294 @@
+export interface ChunkOptions {
+	chunkSize: number;    // Target maximum chunk length in characters
+	chunkOverlap: number; // Characters carried over between chunks of the same section
+}
+
+export interface NoteChunk {
+	text: string;         // Raw markdown of the chunk
+	headings: string[];   // Heading trail the chunk sits under, outermost first
+	startLine: number;    // First line of the chunk in the source file (0-based)
+	endLine: number;      // Last line of the chunk in the source file (inclusive)
+}
+
+interface Block {
+	lines: string[];
+	startLine: number;
+}
+
+interface Section {
+	headings: string[];
+	blocks: Block[];
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Split a markdown document into chunks along headings and paragraphs.
+ * Sections are never merged across a heading unless the running chunk is
+ * still tiny, and oversized paragraphs are split by line and then at
+ * sentence or word boundaries.
+ */
+export function chunkMarkdown(content: string, options: ChunkOptions, lineOffset: number = 0): NoteChunk[] {
+	const chunkSize = Math.max(100, options.chunkSize);
+	const overlap = Math.max(0, Math.min(options.chunkOverlap, Math.floor(chunkSize / 2)));
+	const sections = splitSections(content.split('\n'), lineOffset);
+	const chunks: NoteChunk[] = [];
+
+	let current: Block[] = [];
+	let currentHeadings: string[] = [];
+	let currentLength = 0;
+
+	const flush = () => {
+		const chunk = blocksToChunk(current, currentHeadings);
+		if (chunk) {
+			chunks.push(chunk);
+		}
+		current = [];
+		currentLength = 0;
+	};
+
+	for (const section of sections) {
+		// Start a new chunk at each heading unless the running chunk is too small to stand alone
+		if (current.length > 0 && currentLength >= chunkSize / 4) {
+			flush();
+		}
+		if (current.length === 0) {
+			currentHeadings = section.headings;
+		}
+
+		for (const block of section.blocks) {
+			for (const piece of splitOversizedBlock(block, chunkSize)) {
+				const pieceLength = blockLength(piece);
+
+				if (current.length > 0 && currentLength + pieceLength > chunkSize) {
+					let carried = overlapBlocks(current, overlap);
+					let carriedLength = carried.reduce((sum, b) => sum + blockLength(b), 0);
+					if (carriedLength + pieceLength > chunkSize) {
+						// The overlap would push the next chunk over the limit
+						carried = [];
+						carriedLength = 0;
+					}
+					flush();
+					current = carried;
+					currentLength = carriedLength;
+					currentHeadings = section.headings;
+				}
+
+				current.push(piece);
+				currentLength += pieceLength;
+			}
+		}
+	}
+
+	flush();
+	return chunks;
+}
+
+function splitSections(lines: string[], lineOffset: number): Section[] {
+	const sections: Section[] = [];
+	const headingStack: Array<{ level: number, text: string }> = [];
+	let section: Section = { headings: [], blocks: [] };
+	let block: Block | null = null;
+	let inFence = false;
+
+	const endBlock = () => {
+		if (block && block.lines.some(line => line.trim())) {
+			section.blocks.push(block);
+		}
+		block = null;
+	};
+
+	lines.forEach((line, i) => {
+		const lineNumber = i + lineOffset;
+
+		if (FENCE_REGEX.test(line)) {
+			inFence = !inFence;
+		}
+
+		const heading = !inFence ? line.match(HEADING_REGEX) : null;
+		if (heading) {
+			endBlock();
+			if (section.blocks.length > 0) {
+				sections.push(section);
+			}
+
+			const level = heading[1].length;
+			while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+				headingStack.pop();
+			}
+			headingStack.push({ level, text: heading[2] });
+
+			section = { headings: headingStack.map(h => h.text), blocks: [] };
+			// Keep the heading line itself with the section's first block
+			block = { lines: [line], startLine: lineNumber };
+			return;
+		}
+
+		// Blank lines separate paragraphs, except inside code fences
+		if (!line.trim() && !inFence) {
+			if (block && block.lines.length === 1 && HEADING_REGEX.test(block.lines[0])) {
+				return;
+			}
+			endBlock();
+			return;
+		}
+
+		if (!block) {
+			block = { lines: [], startLine: lineNumber };
+		}
+		block.lines.push(line);
+	});
+
+	endBlock();
+	if (section.blocks.length > 0) {
+		sections.push(section);
+	}
+
+	return sections;
+}
+
+function splitOversizedBlock(block: Block, chunkSize: number): Block[] {
+	if (blockLength(block) <= chunkSize) {
+		return [block];
+	}
+
+	const pieces: Block[] = [];
+	let piece: Block = { lines: [], startLine: block.startLine };
+	let pieceLength = 0;
+
+	const startPiece = (lines: string[], startLine: number) => {
+		if (piece.lines.length > 0) {
+			pieces.push(piece);
+		}
+		piece = { lines, startLine };
+		pieceLength = lines.reduce((sum, line) => sum + line.length + 1, 0);
+	};
+
+	block.lines.forEach((line, i) => {
+		const lineNumber = block.startLine + i;
+
+		if (pieceLength + line.length + 1 <= chunkSize) {
+			piece.lines.push(line);
+			pieceLength += line.length + 1;
+			return;
+		}
+
+		if (line.length + 1 <= chunkSize) {
+			startPiece([line], lineNumber);
+			return;
+		}
+
+		// A single huge line is split at sentence or word boundaries. The first
+		// part fills up the running piece, so a heading stays with its paragraph
+		let remaining = chunkSize - pieceLength - 1;
+		const onlyHeading = piece.lines.length > 0 && piece.lines.every(text => HEADING_REGEX.test(text));
+		if (piece.lines.length > 0 && (remaining < 1 || (remaining < chunkSize / 4 && !onlyHeading))) {
+			startPiece([], lineNumber);
+			remaining = chunkSize - 1;
+		}
+
+		let rest = line;
+		let first = true;
+		while (rest.length > 0) {
+			const budget = first ? remaining : chunkSize - 1;
+			const cut = rest.length <= budget ? rest.length : findBreak(rest, budget);
+			const part = rest.substring(0, cut).replace(/\s+$/, '');
+			rest = rest.substring(cut).replace(/^\s+/, '');
+
+			if (first && piece.lines.length > 0) {
+				piece.lines.push(part);
+				pieceLength += part.length + 1;
+			} else {
+				startPiece([part], lineNumber);
+			}
+			first = false;
+		}
+	});
+
+	if (piece.lines.length > 0) {
+		pieces.push(piece);
+	}
+
+	return pieces;
+}
+
+/**
+ * Where to cut text that is longer than max: after the last sentence end,
+ * else at the last space, in the second half of the allowed length. Text
+ * without either is cut at max.
+ */
+function findBreak(text: string, max: number): number {
+	const window = text.substring(0, max + 1);
+	const minimum = Math.floor(max / 2);
+
+	// Sentence punctuation, closing quotes or brackets, then a space
+	const sentence = /[.!?…]["')\]]*(?=\s)/g;
+	let sentenceEnd = -1;
+	let match: RegExpExecArray | null;
+	while ((match = sentence.exec(window)) !== null) {
+		const end = match.index + match[0].length;
+		if (end <= max) {
+			sentenceEnd = end;
+		}
+	}
+	if (sentenceEnd > minimum) {
+		return sentenceEnd;
+	}
+
+	const space = window.lastIndexOf(' ', max);
+	if (space > minimum) {
+		return space + 1;
+	}
+
+	return Math.max(1, max);
+}
+
+function overlapBlocks(blocks: Block[], overlap: number): Block[] {
+	if (overlap === 0) {
+		return [];
+	}
+
+	// Carry whole trailing lines until the overlap budget is spent
+	const last = blocks[blocks.length - 1];
+	const carried: string[] = [];
+	let length = 0;
+
+	for (let i = last.lines.length - 1; i >= 0; i--) {
+		const line = last.lines[i];
+		if (length + line.length + 1 > overlap) {
+			break;
+		}
+		carried.unshift(line);
+		length += line.length + 1;
+	}
+
+	if (carried.length === 0) {
+		return [];
+	}
+
+	return [{ lines: carried, startLine: last.startLine + last.lines.length - carried.length }];
+}
+
+function blocksToChunk(blocks: Block[], headings: string[]): NoteChunk | null {
+	if (blocks.length === 0) {
+		return null;
+	}
+
+	const text = blocks.map(b => b.lines.join('\n')).join('\n\n').trim();
+	if (!text) {
+		return null;
+	}
+
+	const last = blocks[blocks.length - 1];
+	return {
+		text,
+		headings,
+		startLine: blocks[0].startLine,
+		endLine: last.startLine + last.lines.length - 1
+	};
+}
+
+function blockLength(block: Block): number {
+	return block.lines.reduce((sum, line) => sum + line.length + 1, 0) + 1;
+}
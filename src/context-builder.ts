@@ -0,0 +1,243 @@
+import { ChatMessage, MessageSource, buildSystemPrompt } from './provider';
+
+// Share of the budget history may use before retrieved notes get the rest
+const HISTORY_SHARE = 0.3;
+// Older turns that do not fit are shortened to about this many tokens
+const SHORTENED_TURN_TOKENS = 80;
+// Don't bother adding a cut-down chunk smaller than this
+const MIN_PARTIAL_TOKENS = 100;
+
+export interface ContextChunk {
+	text: string;
+	startLine?: number;
+	endLine?: number;
+}
+
+export interface ContextItem {
+	header: string;           // First line of the note's context block
+	source?: MessageSource;   // Left out for text that is not from a note
+	chunks: ContextChunk[];   // Best first
+}
+
+export interface BudgetBreakdown {
+	budget: number;
+	system: number;
+	question: number;
+	history: { tokens: number, kept: number, shortened: number, dropped: number };
+	notes: { tokens: number, notes: number, chunks: number, duplicates: number, truncated: number, dropped: number };
+	total: number;
+}
+
+export interface BuiltContext {
+	context: string[];        // One block per note, in [Note N] order
+	sources: MessageSource[]; // Matching the context blocks
+	messages: ChatMessage[];  // History to send, ending with the question
+	breakdown: BudgetBreakdown;
+}
+
+/**
+ * Rough token count for budgeting: about four characters per token for
+ * English prose, which errs on the high side for most notes.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Fit the retrieved notes and the conversation history into a token budget.
+ * The system prompt and the question always go in; history may take up to
+ * HISTORY_SHARE of what is left (newest turns first, older ones shortened or
+ * dropped), and the retrieved chunks fill the remainder in ranking order.
+ */
+export function buildContext(items: ContextItem[], messages: ChatMessage[], budget: number): BuiltContext {
+	const question = messages[messages.length - 1];
+	const system = estimateTokens(buildSystemPrompt([]));
+	const questionTokens = question ? estimateTokens(question.content) : 0;
+	let remaining = Math.max(0, budget - system - questionTokens);
+
+	// History: walk back from the newest turn
+	const history = selectHistory(messages.slice(0, -1), Math.floor(remaining * HISTORY_SHARE));
+	remaining -= history.breakdown.tokens;
+
+	// Retrieved notes: best notes first, each note's best chunks first
+	const notes = selectChunks(items, remaining);
+
+	return {
+		context: notes.context,
+		sources: notes.sources,
+		messages: question ? history.messages.concat([question]) : history.messages,
+		breakdown: {
+			budget,
+			system,
+			question: questionTokens,
+			history: history.breakdown,
+			notes: notes.breakdown,
+			total: system + questionTokens + history.breakdown.tokens + notes.breakdown.tokens
+		}
+	};
+}
+
+function selectHistory(turns: ChatMessage[], budget: number) {
+	const kept: ChatMessage[] = [];
+	const shortenedTurns: boolean[] = []; // Matching kept
+	const breakdown = { tokens: 0, kept: 0, shortened: 0, dropped: 0 };
+
+	for (let i = turns.length - 1; i >= 0; i--) {
+		const turn = turns[i];
+		const tokens = estimateTokens(turn.content);
+
+		if (breakdown.tokens + tokens <= budget) {
+			kept.unshift(turn);
+			shortenedTurns.unshift(false);
+			breakdown.tokens += tokens;
+			breakdown.kept++;
+			continue;
+		}
+
+		const shortened = shortenTurn(turn.content);
+		const shortenedTokens = estimateTokens(shortened);
+		if (breakdown.tokens + shortenedTokens <= budget) {
+			kept.unshift({ role: turn.role, content: shortened });
+			shortenedTurns.unshift(true);
+			breakdown.tokens += shortenedTokens;
+			breakdown.shortened++;
+			continue;
+		}
+
+		// Out of room, everything older is left out
+		breakdown.dropped = i + 1;
+		break;
+	}
+
+	// Chat APIs expect the history to open with a user turn
+	while (kept.length > 0 && kept[0].role !== 'user') {
+		const removed = kept.shift()!;
+		breakdown.tokens -= estimateTokens(removed.content);
+		breakdown.dropped++;
+		if (shortenedTurns.shift()) {
+			breakdown.shortened--;
+		} else {
+			breakdown.kept--;
+		}
+	}
+
+	return { messages: kept, breakdown };
+}
+
+function shortenTurn(content: string): string {
+	const limit = SHORTENED_TURN_TOKENS * 4;
+	const text = content.replace(/\s+/g, ' ').trim();
+	return text.length > limit ? `${text.substring(0, limit).trim()} …[shortened]` : text;
+}
+
+function selectChunks(items: ContextItem[], budget: number) {
+	const context: string[] = [];
+	const sources: MessageSource[] = [];
+	const breakdown = { tokens: 0, notes: 0, chunks: 0, duplicates: 0, truncated: 0, dropped: 0 };
+	const seen = new Set<string>();
+
+	for (const item of items) {
+		const headerTokens = estimateTokens(item.header) + 1;
+		if (breakdown.tokens + headerTokens + MIN_PARTIAL_TOKENS > budget) {
+			breakdown.dropped++;
+			continue;
+		}
+
+		const selected: ContextChunk[] = [];
+		let tokens = headerTokens;
+
+		for (const chunk of item.chunks) {
+			const body = stripChunkHeader(chunk.text);
+			const key = body.trim();
+			if (!key || seen.has(key)) {
+				// Identical text already in the context, e.g. a note embedded in another
+				breakdown.duplicates++;
+				continue;
+			}
+
+			const available = budget - breakdown.tokens - tokens;
+			let text = body;
+			let chunkTokens = estimateTokens(text);
+			if (chunkTokens > available) {
+				if (available < MIN_PARTIAL_TOKENS) {
+					break;
+				}
+				text = `${text.substring(0, available * 4).trim()} …[truncated]`;
+				chunkTokens = estimateTokens(text);
+				breakdown.truncated++;
+			}
+
+			seen.add(key);
+			selected.push({ ...chunk, text });
+			tokens += chunkTokens;
+		}
+
+		if (selected.length === 0) {
+			breakdown.dropped++;
+			continue;
+		}
+
+		context.push(`${item.header}\n${joinChunks(selected)}`);
+		if (item.source) {
+			sources.push(item.source);
+		}
+		breakdown.tokens += tokens;
+		breakdown.notes++;
+		breakdown.chunks += selected.length;
+	}
+
+	return { context, sources, breakdown };
+}
+
+/**
+ * Join a note's chunks in reading order. Neighbouring chunks share their
+ * overlap region, so text repeated at the start of a chunk is cut.
+ */
+function joinChunks(chunks: ContextChunk[]): string {
+	const ordered = chunks.slice().sort((a, b) => (a.startLine || 0) - (b.startLine || 0));
+	const parts: string[] = [];
+	let previous: ContextChunk | null = null;
+
+	for (const chunk of ordered) {
+		let text = chunk.text;
+		const overlaps = previous && previous.endLine !== undefined && chunk.startLine !== undefined
+			&& chunk.startLine <= previous.endLine;
+
+		if (previous && overlaps) {
+			text = removeOverlap(previous.text, text);
+			if (text.trim()) {
+				parts[parts.length - 1] += `\n${text}`;
+			}
+		} else {
+			parts.push(text);
+		}
+		previous = chunk;
+	}
+
+	return parts.join('\n\n...\n\n');
+}
+
+function removeOverlap(before: string, after: string): string {
+	const beforeLines = before.split('\n');
+	const afterLines = after.split('\n');
+
+	// Longest run of lines that ends `before` and starts `after`
+	for (let length = Math.min(beforeLines.length, afterLines.length); length > 0; length--) {
+		const tail = beforeLines.slice(beforeLines.length - length).join('\n');
+		const head = afterLines.slice(0, length).join('\n');
+		if (tail === head) {
+			return afterLines.slice(length).join('\n');
+		}
+	}
+
+	return after;
+}
+
+/**
+ * Indexed chunk text starts with Title/Path/Section (and alias or property)
+ * lines for the embedding model; the context block header already names the note.
+ */
+export function stripChunkHeader(text: string): string {
+	const match = text.match(/^Title: .*\nPath: .*\n(?:.+\n)*\n/);
+	return match ? text.substring(match[0].length) : text;
+}
@@ -0,0 +1,81 @@
+import { App, TFile, TFolder } from 'obsidian';
+
+export type ContextMode = 'vault' | 'note' | 'linked' | 'folder' | 'selection';
+
+export const CONTEXT_MODE_NAMES: { [mode: string]: string } = {
+	vault: 'Whole vault',
+	note: 'Current note',
+	linked: 'Note + linked notes',
+	folder: 'Current folder',
+	selection: 'Selection'
+};
+
+export interface ScopeSelection {
+	text: string;
+	startLine: number;    // 0-based, like chunk line numbers
+	endLine: number;
+}
+
+/**
+ * Where the chat looks for context. Without a pinned file or folder the
+ * scope follows the note that is currently open.
+ */
+export interface ContextScope {
+	mode: ContextMode;
+	file?: TFile;
+	folderPath?: string;
+	selection?: ScopeSelection;
+}
+
+/**
+ * Paths of the markdown notes a scope covers, or null for the whole vault.
+ * Selection scopes are answered from the selected text, not a search.
+ */
+export function getScopePaths(app: App, mode: ContextMode, file: TFile | null, folderPath?: string): string[] | null {
+	switch (mode) {
+		case 'note':
+			return file ? [file.path] : [];
+		case 'linked':
+			return file ? getLinkedPaths(app, file) : [];
+		case 'folder': {
+			const path = folderPath !== undefined ? folderPath : (file && file.parent ? file.parent.path : '');
+			return getFolderPaths(app, path);
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * The note itself, the notes it links to and the notes linking to it.
+ */
+export function getLinkedPaths(app: App, file: TFile): string[] {
+	const paths = new Set<string>([file.path]);
+	const resolvedLinks = app.metadataCache.resolvedLinks;
+
+	Object.keys(resolvedLinks[file.path] || {}).forEach(target => paths.add(target));
+	Object.keys(resolvedLinks).forEach(source => {
+		if (resolvedLinks[source][file.path]) {
+			paths.add(source);
+		}
+	});
+
+	// Linked PDFs and canvases are searched too when they are indexed
+	return Array.from(paths);
+}
+
+function getFolderPaths(app: App, folderPath: string): string[] {
+	const folder = folderPath ? app.vault.getAbstractFileByPath(folderPath) : app.vault.getRoot();
+	if (!(folder instanceof TFolder)) {
+		return [];
+	}
+
+	if (folder.isRoot()) {
+		return app.vault.getFiles().map(file => file.path);
+	}
+
+	const prefix = `${folder.path}/`;
+	return app.vault.getFiles()
+		.filter(file => file.path.startsWith(prefix))
+		.map(file => file.path);
+}
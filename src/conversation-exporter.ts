@@ -0,0 +1,117 @@
+import { App, Editor, TFile, normalizePath } from 'obsidian';
+import { ChatMessage, MessageSource } from './provider';
+import { Conversation } from './conversation-store';
+
+const CITATION_REGEX = /\[Note (\d+)\]/gi;
+
+/**
+ * Writes chat conversations and single answers into the vault as markdown,
+ * with [Note N] citations turned into wikilinks.
+ */
+export class ConversationExporter {
+	private app: App;
+	private plugin: any;
+
+	constructor(app: App, plugin: any) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Create a note for the conversation in the export folder and return it.
+	 */
+	async exportConversation(conversation: Conversation): Promise<TFile> {
+		const folder = normalizePath(this.plugin.settings.exportFolder || '/');
+		if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		const path = this.getAvailablePath(folder, `${formatDate(conversation.created)} ${sanitizeFileName(conversation.title)}`);
+		return await this.app.vault.create(path, this.formatConversation(conversation, path));
+	}
+
+	formatConversation(conversation: Conversation, notePath: string): string {
+		const questions = conversation.messages.filter(message => message.role === 'user').length;
+		const lines = [
+			'---',
+			`date: ${new Date(conversation.created).toISOString()}`,
+			`updated: ${new Date(conversation.updated).toISOString()}`,
+			`model: ${conversation.model}`,
+			`questions: ${questions}`,
+			'---',
+			'',
+			`# ${conversation.title}`,
+			''
+		];
+
+		conversation.messages.forEach(message => {
+			if (message.role === 'user') {
+				lines.push('## You', '', message.content.trim(), '');
+			} else if (message.role === 'assistant') {
+				lines.push('## Assistant', '', this.formatAnswer(message, notePath), '');
+			}
+		});
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * An assistant answer with its citations and sources as wikilinks,
+	 * resolved relative to the note it is written into.
+	 */
+	formatAnswer(message: ChatMessage, notePath: string): string {
+		const sources = message.sources || [];
+		let text = message.content.trim().replace(CITATION_REGEX, (match: string, number: string) => {
+			const source = sources[parseInt(number, 10) - 1];
+			return source ? this.toWikilink(source, notePath, match.substring(1, match.length - 1)) : match;
+		});
+
+		if (sources.length > 0) {
+			const links = sources.map((source, i) => {
+				const section = source.headings && source.headings.length > 0 ? ` › ${source.headings.join(' › ')}` : '';
+				return `${i + 1}. ${this.toWikilink(source, notePath)}${section}`;
+			});
+			text += `\n\n**Sources**\n${links.join('\n')}`;
+		}
+
+		return text;
+	}
+
+	/**
+	 * Insert an answer into an editor at the cursor, replacing any selection.
+	 */
+	insertAnswer(editor: Editor, file: TFile | null, message: ChatMessage) {
+		const text = this.formatAnswer(message, file ? file.path : '');
+		editor.replaceSelection(`${text}\n`);
+	}
+
+	private toWikilink(source: MessageSource, notePath: string, alias?: string): string {
+		const file = this.app.vault.getAbstractFileByPath(source.path);
+		const linktext = file instanceof TFile
+			? this.app.metadataCache.fileToLinktext(file, notePath)
+			: source.path.replace(/\.md$/, '');
+		// Pipes and brackets would end the link early
+		const label = (alias || source.title).replace(/[|[\]]/g, ' ').trim();
+		return `[[${linktext}|${label}]]`;
+	}
+
+	private getAvailablePath(folder: string, baseName: string): string {
+		const prefix = folder === '/' ? '' : `${folder}/`;
+		let path = normalizePath(`${prefix}${baseName}.md`);
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = normalizePath(`${prefix}${baseName} ${i}.md`);
+		}
+		return path;
+	}
+}
+
+function formatDate(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function sanitizeFileName(name: string): string {
+	// Characters not allowed in file names or links on some platforms
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim() || 'Conversation';
+}
@@ -0,0 +1,124 @@
+import { App, Modal, Setting, SuggestModal } from 'obsidian';
+import { ConversationStore, ConversationSummary } from './conversation-store';
+
+/**
+ * Pick a past conversation. Typing searches titles and message text.
+ */
+export class ConversationSuggestModal extends SuggestModal<ConversationSummary> {
+	private store: ConversationStore;
+	private onChoose: (summary: ConversationSummary) => void;
+
+	constructor(app: App, store: ConversationStore, onChoose: (summary: ConversationSummary) => void) {
+		super(app);
+		this.store = store;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Search conversations...');
+		this.emptyStateText = 'No matching conversations';
+	}
+
+	getSuggestions(query: string): Promise<ConversationSummary[]> {
+		return this.store.search(query);
+	}
+
+	renderSuggestion(summary: ConversationSummary, el: HTMLElement) {
+		el.createDiv({ text: summary.title });
+		el.createEl('small', {
+			cls: 'gemini-conversation-meta',
+			text: `${new Date(summary.updated).toLocaleString()} · ${summary.messageCount} messages · ${summary.model}`
+		});
+	}
+
+	onChooseSuggestion(summary: ConversationSummary) {
+		this.onChoose(summary);
+	}
+}
+
+export class TextInputModal extends Modal {
+	private title: string;
+	private value: string;
+	private onSubmit: (value: string) => void;
+
+	constructor(app: App, title: string, value: string, onSubmit: (value: string) => void) {
+		super(app);
+		this.title = title;
+		this.value = value;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: this.title });
+
+		new Setting(contentEl)
+			.addText(text => {
+				text.setValue(this.value)
+					.onChange(value => {
+						this.value = value;
+					});
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('keydown', (evt) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.select(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.submit())
+			)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit() {
+		this.close();
+		this.onSubmit(this.value);
+	}
+}
+
+export class ConfirmModal extends Modal {
+	private message: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(app: App, message: string, confirmText: string, onConfirm: () => void) {
+		super(app);
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('p', { text: this.message });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,223 @@
+import { App } from 'obsidian';
+import { ChatMessage } from './provider';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Longest title derived from the first question
+const TITLE_LENGTH = 60;
+
+export interface ConversationSummary {
+	id: string;
+	title: string;
+	created: number;
+	updated: number;
+	model: string;        // Chat model of the most recent answer
+	messageCount: number;
+}
+
+export interface Conversation extends ConversationSummary {
+	messages: ChatMessage[];
+}
+
+interface ConversationIndex {
+	version: string;
+	conversations: ConversationSummary[];
+}
+
+/**
+ * Chat conversations, one JSON file each plus an index of summaries, kept
+ * apart from the plugin settings in data.json.
+ */
+export class ConversationStore {
+	private app: App;
+	private dir: string;
+	private summaries: Map<string, ConversationSummary> = new Map();
+	private cache: Map<string, Conversation> = new Map();
+	private loaded: boolean = false;
+
+	constructor(app: App, dir: string) {
+		this.app = app;
+		this.dir = dir;
+	}
+
+	async load() {
+		if (this.loaded) {
+			return;
+		}
+
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(this.indexPath())) {
+			try {
+				const index: ConversationIndex = JSON.parse(await adapter.read(this.indexPath()));
+				index.conversations.forEach(summary => this.summaries.set(summary.id, summary));
+			} catch (error) {
+				console.error('Failed to load conversation index:', error);
+			}
+		}
+
+		this.loaded = true;
+	}
+
+	/**
+	 * Most recently updated first.
+	 */
+	list(): ConversationSummary[] {
+		return Array.from(this.summaries.values()).sort((a, b) => b.updated - a.updated);
+	}
+
+	create(model: string): Conversation {
+		const now = Date.now();
+		return {
+			id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+			title: DEFAULT_CONVERSATION_TITLE,
+			created: now,
+			updated: now,
+			model,
+			messageCount: 0,
+			messages: []
+		};
+	}
+
+	async get(id: string): Promise<Conversation | null> {
+		const cached = this.cache.get(id);
+		if (cached) {
+			return cached;
+		}
+
+		const path = this.conversationPath(id);
+		if (!this.summaries.has(id) || !(await this.app.vault.adapter.exists(path))) {
+			return null;
+		}
+
+		try {
+			const conversation: Conversation = JSON.parse(await this.app.vault.adapter.read(path));
+			this.cache.set(id, conversation);
+			return conversation;
+		} catch (error) {
+			console.error(`Failed to load conversation ${id}:`, error);
+			return null;
+		}
+	}
+
+	async save(conversation: Conversation) {
+		conversation.updated = Date.now();
+		conversation.messageCount = conversation.messages.length;
+
+		// Name untitled conversations after their first question
+		if (conversation.title === DEFAULT_CONVERSATION_TITLE) {
+			const first = conversation.messages.find(message => message.role === 'user');
+			if (first) {
+				conversation.title = deriveTitle(first.content);
+			}
+		}
+
+		await this.ensureDir();
+		await this.app.vault.adapter.write(this.conversationPath(conversation.id), JSON.stringify(conversation));
+
+		this.cache.set(conversation.id, conversation);
+		this.summaries.set(conversation.id, toSummary(conversation));
+		await this.writeIndex();
+	}
+
+	async rename(id: string, title: string) {
+		const conversation = await this.get(id);
+		if (!conversation) {
+			return;
+		}
+
+		conversation.title = title.trim() || DEFAULT_CONVERSATION_TITLE;
+		await this.app.vault.adapter.write(this.conversationPath(id), JSON.stringify(conversation));
+		this.summaries.set(id, toSummary(conversation));
+		await this.writeIndex();
+	}
+
+	async delete(id: string) {
+		const path = this.conversationPath(id);
+		if (await this.app.vault.adapter.exists(path)) {
+			await this.app.vault.adapter.remove(path);
+		}
+
+		this.cache.delete(id);
+		this.summaries.delete(id);
+		await this.writeIndex();
+	}
+
+	/**
+	 * Conversations whose title or messages contain every word of the query.
+	 */
+	async search(query: string): Promise<ConversationSummary[]> {
+		const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+		const summaries = this.list();
+		if (words.length === 0) {
+			return summaries;
+		}
+
+		const matches: ConversationSummary[] = [];
+		for (const summary of summaries) {
+			const conversation = await this.get(summary.id);
+			const text = [summary.title]
+				.concat(conversation ? conversation.messages.map(message => message.content) : [])
+				.join('\n')
+				.toLowerCase();
+
+			if (words.every(word => text.includes(word))) {
+				matches.push(summary);
+			}
+		}
+
+		return matches;
+	}
+
+	/**
+	 * Import the single chat history older versions kept in data.json.
+	 */
+	async importLegacyHistory(messages: ChatMessage[], model: string): Promise<Conversation | null> {
+		if (!messages || messages.length === 0) {
+			return null;
+		}
+
+		const conversation = this.create(model);
+		conversation.messages = messages;
+		await this.save(conversation);
+		return conversation;
+	}
+
+	private async writeIndex() {
+		await this.ensureDir();
+		const index: ConversationIndex = {
+			version: '1.0.0',
+			conversations: this.list()
+		};
+		await this.app.vault.adapter.write(this.indexPath(), JSON.stringify(index));
+	}
+
+	private async ensureDir() {
+		if (!(await this.app.vault.adapter.exists(this.dir))) {
+			await this.app.vault.adapter.mkdir(this.dir);
+		}
+	}
+
+	private indexPath(): string {
+		return `${this.dir}/index.json`;
+	}
+
+	private conversationPath(id: string): string {
+		return `${this.dir}/${id}.json`;
+	}
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+	return {
+		id: conversation.id,
+		title: conversation.title,
+		created: conversation.created,
+		updated: conversation.updated,
+		model: conversation.model,
+		messageCount: conversation.messageCount
+	};
+}
+
+function deriveTitle(question: string): string {
+	const line = question.replace(/\s+/g, ' ').trim();
+	return line.length > TITLE_LENGTH ? `${line.substring(0, TITLE_LENGTH - 1).trim()}…` : line;
+}
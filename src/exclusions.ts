@@ -0,0 +1,208 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { ContentExtractors } from './extractors';
+
+// Frontmatter property that opts a single note out of indexing
+export const INDEX_PROPERTY = 'ai-index';
+
+export interface RulePreview {
+	label: string;
+	count: number;
+}
+
+/**
+ * Convert a vault glob into a regular expression matching whole paths.
+ * `**` crosses folders, `*` and `?` stay within one path segment, and a
+ * trailing slash means everything inside the folder.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let glob = pattern.trim().replace(/^\/+/, '');
+	if (glob.endsWith('/')) {
+		glob += '**';
+	}
+
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				// "**/" also matches zero folders
+				if (glob[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 2;
+				} else {
+					source += '.*';
+					i++;
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Split a multi-line setting into patterns, ignoring blanks and # comments.
+ */
+export function parsePatterns(value: string): string[] {
+	return (value || '')
+		.split('\n')
+		.map(line => line.trim())
+		.filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Decides which notes may be indexed. Rules are read from the live plugin
+ * settings, so changes apply without rebuilding this object.
+ */
+export class ExclusionRules {
+	private app: App;
+	private plugin: any;
+	private extractors: ContentExtractors;
+	private compiled: Map<string, RegExp> = new Map();
+
+	constructor(app: App, plugin: any, extractors: ContentExtractors) {
+		this.app = app;
+		this.plugin = plugin;
+		this.extractors = extractors;
+	}
+
+	isExcluded(file: TFile): boolean {
+		return this.getExclusionReason(file) !== null;
+	}
+
+	/**
+	 * The first rule that keeps a note out of the index, or null when it may be indexed.
+	 */
+	getExclusionReason(file: TFile): string | null {
+		const includes = parsePatterns(this.plugin.settings.includePatterns);
+		if (includes.length > 0 && !includes.some(pattern => this.matches(pattern, file.path))) {
+			return 'not included';
+		}
+
+		// Like .gitignore, a later !pattern takes notes back in
+		let excludedBy: string | null = null;
+		for (const pattern of parsePatterns(this.plugin.settings.excludePatterns)) {
+			if (pattern.startsWith('!')) {
+				if (excludedBy && this.matches(pattern.substring(1), file.path)) {
+					excludedBy = null;
+				}
+			} else if (!excludedBy && this.matches(pattern, file.path)) {
+				excludedBy = pattern;
+			}
+		}
+		if (excludedBy) {
+			return `exclude: ${excludedBy}`;
+		}
+
+		if (this.hasOptOutProperty(file)) {
+			return `${INDEX_PROPERTY}: false`;
+		}
+
+		const tag = this.getExcludeTag();
+		if (tag && this.hasTag(file, tag)) {
+			return `#${tag}`;
+		}
+
+		return null;
+	}
+
+	getIndexableFiles(): TFile[] {
+		return this.extractors.getFiles().filter(file => !this.isExcluded(file));
+	}
+
+	/**
+	 * Count how many notes each rule matches, for the settings preview.
+	 */
+	previewRules(): RulePreview[] {
+		const files = this.extractors.getFiles();
+		const previews: RulePreview[] = [];
+
+		const includes = parsePatterns(this.plugin.settings.includePatterns);
+		includes.forEach(pattern => previews.push({
+			label: `include: ${pattern}`,
+			count: files.filter(file => this.matches(pattern, file.path)).length
+		}));
+
+		parsePatterns(this.plugin.settings.excludePatterns).forEach(pattern => previews.push({
+			label: `exclude: ${pattern}`,
+			count: files.filter(file => this.matches(pattern.replace(/^!/, ''), file.path)).length
+		}));
+
+		previews.push({
+			label: `${INDEX_PROPERTY}: false`,
+			count: files.filter(file => this.hasOptOutProperty(file)).length
+		});
+
+		const tag = this.getExcludeTag();
+		if (tag) {
+			previews.push({
+				label: `#${tag}`,
+				count: files.filter(file => this.hasTag(file, tag)).length
+			});
+		}
+
+		previews.push({
+			label: 'indexable notes',
+			count: files.filter(file => !this.isExcluded(file)).length
+		});
+
+		return previews;
+	}
+
+	private matches(pattern: string, path: string): boolean {
+		let regex = this.compiled.get(pattern);
+		if (!regex) {
+			regex = globToRegExp(pattern);
+			this.compiled.set(pattern, regex);
+		}
+
+		if (regex.test(path)) {
+			return true;
+		}
+
+		// A pattern matching a folder excludes everything inside it
+		let slash = path.lastIndexOf('/');
+		while (slash > 0) {
+			path = path.substring(0, slash);
+			if (regex.test(path)) {
+				return true;
+			}
+			slash = path.lastIndexOf('/');
+		}
+
+		return false;
+	}
+
+	private hasOptOutProperty(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) {
+			return false;
+		}
+
+		const value = frontmatter[INDEX_PROPERTY];
+		return value === false || (typeof value === 'string' && value.trim().toLowerCase() === 'false');
+	}
+
+	private hasTag(file: TFile, tag: string): boolean {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return false;
+		}
+
+		// Nested tags count too: #private excludes #private/journal
+		return (getAllTags(cache) || []).some(found => {
+			const normalized = found.replace(/^#/, '').toLowerCase();
+			return normalized === tag || normalized.startsWith(tag + '/');
+		});
+	}
+
+	private getExcludeTag(): string {
+		return (this.plugin.settings.excludeTag || '').trim().replace(/^#/, '').toLowerCase();
+	}
+}
@@ -0,0 +1,270 @@
+import { App, TFile } from 'obsidian';
+import type { AllCanvasNodeData, CanvasData, CanvasEdgeData } from 'obsidian/canvas';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { findImageDescriptions } from './image-text';
+import { IMAGE_EXTENSIONS } from './note-preprocessor';
+
+export type FileType = 'markdown' | 'canvas' | 'pdf' | 'image';
+
+// Characters of a card shown when describing a canvas connection
+const CARD_SUMMARY_CHARS = 60;
+
+export interface ExtractedContent {
+	text: string;          // Markdown, chunked and preprocessed like a note
+	pageStarts?: number[]; // Line each page starts on, for paged documents
+}
+
+export interface ExtractOptions {
+	isExcluded: (file: TFile) => boolean; // Notes whose text must not show up in other files
+}
+
+/**
+ * Turns one kind of vault file into text the indexer can chunk and embed.
+ */
+export interface ContentExtractor {
+	fileType: FileType;
+	extensions: string[];
+	expensive?: boolean;   // Slow to read, unchanged files are recognised by modification time
+	isEnabled(settings: any): boolean;
+	extract(app: App, file: TFile, options: ExtractOptions): Promise<ExtractedContent>;
+}
+
+/**
+ * The extractors the indexer picks from by file extension. Extractors
+ * registered later take precedence, so a plugin can replace a built-in one.
+ */
+export class ContentExtractors {
+	private app: App;
+	private plugin: any;
+	private extractors: ContentExtractor[] = [];
+
+	constructor(app: App, plugin: any) {
+		this.app = app;
+		this.plugin = plugin;
+		this.register(markdownExtractor);
+		this.register(canvasExtractor);
+		this.register(pdfExtractor);
+		this.register(imageExtractor);
+	}
+
+	register(extractor: ContentExtractor) {
+		this.extractors.unshift(extractor);
+	}
+
+	get(file: TFile): ContentExtractor | null {
+		return this.getByExtension(file.extension);
+	}
+
+	isSupported(file: TFile): boolean {
+		return this.get(file) !== null;
+	}
+
+	/**
+	 * Whether a file at this path would be indexed, for files that were
+	 * renamed or deleted and can no longer be looked up.
+	 */
+	isSupportedPath(path: string): boolean {
+		const name = path.split('/').pop() || '';
+		const dot = name.lastIndexOf('.');
+		return dot !== -1 && this.getByExtension(name.substring(dot + 1)) !== null;
+	}
+
+	/**
+	 * Every vault file an enabled extractor can read.
+	 */
+	getFiles(): TFile[] {
+		return this.app.vault.getFiles().filter(file => this.isSupported(file));
+	}
+
+	private getByExtension(extension: string): ContentExtractor | null {
+		const lower = extension.toLowerCase();
+		return this.extractors.find(extractor =>
+			extractor.extensions.indexOf(lower) !== -1 && extractor.isEnabled(this.plugin.settings)) || null;
+	}
+}
+
+export const markdownExtractor: ContentExtractor = {
+	fileType: 'markdown',
+	extensions: ['md'],
+	isEnabled: () => true,
+	extract: async (app, file) => ({ text: await app.vault.cachedRead(file) })
+};
+
+/**
+ * Cards become paragraphs in reading order, grouped under the label of the
+ * group they sit in, followed by a list of the connections between them.
+ */
+export const canvasExtractor: ContentExtractor = {
+	fileType: 'canvas',
+	extensions: ['canvas'],
+	isEnabled: settings => settings.indexCanvas,
+	extract: async (app, file) => {
+		const raw = await app.vault.cachedRead(file);
+		const data: CanvasData = raw.trim() ? JSON.parse(raw) : { nodes: [], edges: [] };
+		return { text: canvasToMarkdown(data.nodes || [], data.edges || []) };
+	}
+};
+
+/**
+ * Text of every page through the bundled pdf.js parser. Pages are
+ * separated by a blank line; pageStarts maps chunks back to pages.
+ */
+export const pdfExtractor: ContentExtractor = {
+	fileType: 'pdf',
+	extensions: ['pdf'],
+	expensive: true,
+	isEnabled: settings => settings.indexPdfs,
+	extract: async (app, file) => {
+		// Loaded on first use, so the parser is only evaluated with PDF indexing
+		// turned on. The bundled worker code then runs on the main thread
+		const [{ getDocument }] = await Promise.all([
+			import('pdfjs-dist/legacy/build/pdf'),
+			import('pdfjs-dist/legacy/build/pdf.worker.entry')
+		]);
+		const document = await getDocument({
+			data: new Uint8Array(await app.vault.readBinary(file)),
+			// Only the text is needed, no fonts for rendering
+			disableFontFace: true,
+			isEvalSupported: false,
+			verbosity: 0
+		}).promise;
+		const lines: string[] = [];
+		const pageStarts: number[] = [];
+
+		try {
+			for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+				const page = await document.getPage(pageNumber);
+				const content = await page.getTextContent();
+				const text = content.items
+					.filter((item): item is TextItem => 'str' in item)
+					.map(item => `${item.str}${item.hasEOL ? '\n' : ''}`)
+					.join('');
+
+				pageStarts.push(lines.length);
+				// A leading '#' in a PDF is not a heading
+				lines.push(...text.split('\n').map((line: string) => line.trim().replace(/^#+\s/, '')), '');
+			}
+		} finally {
+			await document.destroy();
+		}
+
+		return { text: lines.join('\n'), pageStarts };
+	}
+};
+
+/**
+ * Images are indexed by the alt text notes show them with. They are not
+ * OCRed, so an image without alt text has no text and is left out.
+ */
+export const imageExtractor: ContentExtractor = {
+	fileType: 'image',
+	extensions: IMAGE_EXTENSIONS,
+	isEnabled: settings => settings.indexImages,
+	extract: async (app, file, options) => {
+		const descriptions = findImageDescriptions(app, file, options.isExcluded);
+		if (descriptions.length === 0) {
+			return { text: '' };
+		}
+
+		const items = descriptions.map(description => {
+			const note = (description.notePath.split('/').pop() || '').replace(/\.md$/, '');
+			return `- ${description.text} (in ${note})`;
+		});
+		return { text: ['# Descriptions', items.join('\n')].join('\n\n') };
+	}
+};
+
+function canvasToMarkdown(nodes: AllCanvasNodeData[], edges: CanvasEdgeData[]): string {
+	const groups = nodes.filter(node => node.type === 'group');
+	const cards = nodes
+		.filter(node => node.type !== 'group')
+		.sort((a, b) => (a.y - b.y) || (a.x - b.x));
+
+	// Each card belongs to the smallest group that contains it
+	const grouped = new Map<AllCanvasNodeData | null, AllCanvasNodeData[]>();
+	cards.forEach(card => {
+		const group = groups
+			.filter(candidate => contains(candidate, card))
+			.sort((a, b) => a.width * a.height - b.width * b.height)[0] || null;
+		const members = grouped.get(group) || [];
+		members.push(card);
+		grouped.set(group, members);
+	});
+
+	const sections: string[] = [];
+	(grouped.get(null) || []).forEach(card => sections.push(describeCard(card)));
+	groups
+		.slice()
+		.sort((a, b) => (a.y - b.y) || (a.x - b.x))
+		.forEach(group => {
+			const members = grouped.get(group);
+			if (members) {
+				sections.push(`## ${group.label || 'Group'}`);
+				members.forEach(card => sections.push(describeCard(card)));
+			}
+		});
+
+	const byId = new Map(nodes.map(node => [node.id, node] as [string, AllCanvasNodeData]));
+	const connections = edges
+		.filter(edge => byId.has(edge.fromNode) && byId.has(edge.toNode))
+		.map(edge => {
+			const from = summarizeCard(byId.get(edge.fromNode)!);
+			const to = summarizeCard(byId.get(edge.toNode)!);
+			return `- ${from} → ${to}${edge.label ? ` (${edge.label})` : ''}`;
+		});
+	if (connections.length > 0) {
+		sections.push('## Connections', connections.join('\n'));
+	}
+
+	return sections.filter(section => section.trim()).join('\n\n');
+}
+
+function describeCard(node: AllCanvasNodeData): string {
+	switch (node.type) {
+		case 'text':
+			return node.text;
+		case 'file':
+			// Notes are inlined like embeds, other files described
+			return `![[${node.file}${node.subpath || ''}]]`;
+		case 'link':
+			return `Link: ${node.url}`;
+		default:
+			return '';
+	}
+}
+
+function summarizeCard(node: AllCanvasNodeData): string {
+	let summary = '';
+	switch (node.type) {
+		case 'text':
+			summary = (node.text.split('\n').find(line => line.trim()) || '').replace(/^#+\s*/, '').trim();
+			break;
+		case 'file':
+			summary = (node.file.split('/').pop() || node.file).replace(/\.md$/, '');
+			break;
+		case 'link':
+			summary = node.url;
+			break;
+		case 'group':
+			summary = node.label || 'Group';
+			break;
+	}
+	return summary.length > CARD_SUMMARY_CHARS ? `${summary.substring(0, CARD_SUMMARY_CHARS)}…` : summary;
+}
+
+function contains(group: AllCanvasNodeData, node: AllCanvasNodeData): boolean {
+	return node.x >= group.x && node.y >= group.y
+		&& node.x + node.width <= group.x + group.width
+		&& node.y + node.height <= group.y + group.height;
+}
+
+/**
+ * 1-based page a line of extracted text is on.
+ */
+export function pageOfLine(pageStarts: number[], line: number): number {
+	let page = 0;
+	while (page < pageStarts.length && pageStarts[page] <= line) {
+		page++;
+	}
+	return Math.max(page, 1);
+}
@@ -0,0 +1,84 @@
+import { App } from 'obsidian';
+
+export interface FailedNote {
+	path: string;
+	chunks: number[];     // Chunk indexes that got no embedding
+	attempts: number;
+	lastAttempt: number;
+}
+
+/**
+ * Notes with chunks the embedding API failed on, kept on disk so a later
+ * run can retry just those notes instead of scanning the whole vault.
+ */
+export class FailedEmbeddings {
+	private app: App;
+	private path: string;
+	private failures: Map<string, FailedNote> = new Map();
+	private loaded: boolean = false;
+
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.path = path;
+	}
+
+	async load() {
+		if (this.loaded) {
+			return;
+		}
+
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(this.path)) {
+			try {
+				const failures: FailedNote[] = JSON.parse(await adapter.read(this.path));
+				failures.forEach(failure => this.failures.set(failure.path, failure));
+			} catch (error) {
+				console.error('Failed to load failed embeddings:', error);
+			}
+		}
+
+		this.loaded = true;
+	}
+
+	list(): FailedNote[] {
+		return Array.from(this.failures.values());
+	}
+
+	has(path: string): boolean {
+		return this.failures.has(path);
+	}
+
+	get size(): number {
+		return this.failures.size;
+	}
+
+	get chunkCount(): number {
+		return this.list().reduce((sum, failure) => sum + failure.chunks.length, 0);
+	}
+
+	record(path: string, chunks: number[]) {
+		const existing = this.failures.get(path);
+		this.failures.set(path, {
+			path,
+			chunks,
+			attempts: existing ? existing.attempts + 1 : 1,
+			lastAttempt: Date.now()
+		});
+	}
+
+	clear(path: string) {
+		this.failures.delete(path);
+	}
+
+	async save() {
+		const adapter = this.app.vault.adapter;
+		if (this.failures.size === 0) {
+			if (await adapter.exists(this.path)) {
+				await adapter.remove(this.path);
+			}
+			return;
+		}
+
+		await adapter.write(this.path, JSON.stringify(this.list()));
+	}
+}
@@ -1,19 +1,25 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { AIProvider, ChatMessage, EmbeddingDocument, MAX_EMBEDDING_CHARS, buildSystemPrompt } from './provider';
+import { RateLimiter, isRetryableError, withRetry } from './rate-limiter';
 
-export interface ChatMessage {
-	role: 'user' | 'assistant' | 'system';
-	content: string;
-	context?: string[];
-}
+// Most requests batchEmbedContents accepts at once
+const EMBEDDING_BATCH_SIZE = 100;
 
-export class GeminiService {
+// Recorded with stored vectors; change it when the task types or titles sent change
+const EMBEDDING_SCHEME = 'retrieval-task-types';
+
+export class GeminiService implements AIProvider {
+	readonly id = 'gemini';
+	readonly name = 'Gemini';
 	private genAI: GoogleGenerativeAI;
 	private settings: any;
 	private embeddingModel: any;
 	private chatModel: any;
+	private limiter: RateLimiter;
 
 	constructor(apiKey: string, settings: any) {
 		this.settings = settings;
+		this.limiter = new RateLimiter(settings.embeddingRequestsPerMinute);
 		this.genAI = new GoogleGenerativeAI(apiKey);
 		this.initializeModels();
 	}
@@ -28,7 +34,7 @@ export class GeminiService {
 		this.chatModel = this.genAI.getGenerativeModel({
 			model: this.settings.model || 'gemini-2.0-flash',
 			generationConfig: {
-				temperature: this.settings.temperature || 0.7,
+				temperature: this.settings.temperature ?? 0.7,
 				topK: 40,
 				topP: 0.95,
 				maxOutputTokens: 8192,
@@ -38,23 +44,55 @@ export class GeminiService {
 
 	updateSettings(settings: any) {
 		this.settings = settings;
+		this.limiter.setLimit(settings.embeddingRequestsPerMinute);
 		if (settings.geminiApiKey) {
 			this.genAI = new GoogleGenerativeAI(settings.geminiApiKey);
 			this.initializeModels();
 		}
 	}
 
-	async generateEmbedding(text: string): Promise<number[]> {
+	getEmbeddingModelId(): string {
+		return this.settings.embeddingModel || 'text-embedding-004';
+	}
+
+	getEmbeddingScheme(): string {
+		return EMBEDDING_SCHEME;
+	}
+
+	getChatModelId(): string {
+		return this.settings.model || 'gemini-2.0-flash';
+	}
+
+	isConfigured(): boolean {
+		return !!this.settings.geminiApiKey;
+	}
+
+	/**
+	 * Embed a question with the retrieval query task type.
+	 */
+	async embedQuery(text: string): Promise<number[]> {
+		return this.embed(text, TaskType.RETRIEVAL_QUERY);
+	}
+
+	/**
+	 * Embed a note chunk with the retrieval document task type. The title
+	 * helps the model place the chunk.
+	 */
+	async embedDocument(text: string, title?: string): Promise<number[]> {
+		return this.embed(text, TaskType.RETRIEVAL_DOCUMENT, title);
+	}
+
+	private async embed(text: string, taskType: TaskType, title?: string): Promise<number[]> {
 		try {
 			// Clean and truncate text if needed
-			const cleanText = text.trim().substring(0, 10000); // Limit to 10k chars
+			const cleanText = text.trim().substring(0, MAX_EMBEDDING_CHARS);
 
 			if (!cleanText) {
 				return [];
 			}
 
 			// Generate embedding using the embedding model
-			const result = await this.embeddingModel.embedContent(cleanText);
+			const result = await this.request<any>(() => this.embeddingModel.embedContent(this.toEmbedRequest(cleanText, taskType, title)));
 			return result.embedding.values;
 		} catch (error) {
 			console.error('Error generating embedding:', error);
@@ -62,72 +100,76 @@ export class GeminiService {
 		}
 	}
 
-	async generateEmbeddings(texts: string[]): Promise<number[][]> {
+	/**
+	 * Embed note chunks with batchEmbedContents. A batch rejected for its
+	 * content is retried item by item so one bad chunk does not fail the rest.
+	 */
+	async embedDocuments(documents: EmbeddingDocument[]): Promise<number[][]> {
 		const embeddings: number[][] = [];
 
-		// Process in batches to avoid rate limiting
-		const batchSize = 5;
-		for (let i = 0; i < texts.length; i += batchSize) {
-			const batch = texts.slice(i, i + batchSize);
-			const batchPromises = batch.map(text => this.generateEmbedding(text));
+		for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+			const batch = documents.slice(i, i + EMBEDDING_BATCH_SIZE);
 
 			try {
-				const batchResults = await Promise.all(batchPromises);
-				embeddings.push(...batchResults);
+				embeddings.push(...await this.embedBatch(batch));
 			} catch (error) {
-				console.error(`Error in batch ${i / batchSize}:`, error);
-				// Add empty embeddings for failed items
-				embeddings.push(...batch.map(() => []));
-			}
-
-			// Small delay between batches to avoid rate limiting
-			if (i + batchSize < texts.length) {
-				await new Promise(resolve => setTimeout(resolve, 200));
+				console.error(`Error in batch ${i / EMBEDDING_BATCH_SIZE}:`, error);
+				if (batch.length > 1 && !isRetryableError(error)) {
+					for (const document of batch) {
+						embeddings.push(await this.embedDocument(document.text, document.title).catch(() => []));
+					}
+				} else {
+					// Add empty embeddings for failed items
+					embeddings.push(...batch.map(() => []));
+				}
 			}
 		}
 
 		return embeddings;
 	}
 
+	private async embedBatch(batch: EmbeddingDocument[]): Promise<number[][]> {
+		// Empty chunks are not sent, they keep an empty embedding
+		const texts = batch.map(document => document.text.trim().substring(0, MAX_EMBEDDING_CHARS));
+		const requests = batch
+			.map((document, i) => ({ text: texts[i], title: document.title }))
+			.filter(item => !!item.text)
+			.map(item => this.toEmbedRequest(item.text, TaskType.RETRIEVAL_DOCUMENT, item.title));
+
+		if (requests.length === 0) {
+			return batch.map(() => []);
+		}
+
+		const result = await this.request<any>(() => this.embeddingModel.batchEmbedContents({ requests }));
+		const values: number[][] = (result.embeddings || []).map((embedding: { values: number[] }) => embedding.values || []);
+
+		let next = 0;
+		return texts.map(text => text ? values[next++] || [] : []);
+	}
+
+	private toEmbedRequest(text: string, taskType: TaskType, title?: string) {
+		return {
+			content: { role: 'user', parts: [{ text }] },
+			taskType,
+			// Titles are only accepted for documents
+			title: taskType === TaskType.RETRIEVAL_DOCUMENT && title ? title : undefined
+		};
+	}
+
+	/**
+	 * Send an embedding request within the requests-per-minute budget,
+	 * backing off on rate limit and server errors.
+	 */
+	private request<T>(send: () => Promise<T>): Promise<T> {
+		return withRetry(async () => {
+			await this.limiter.acquire();
+			return await send();
+		});
+	}
+
 	async chat(messages: ChatMessage[], context: string[]): Promise<string> {
 		try {
-			// Build the prompt with context
-			let systemPrompt = `You are a helpful assistant that answers questions about the user's Obsidian notes.
-			Use the following relevant note excerpts to answer the user's question.
-			Always cite which notes you're referencing when providing information. If you are not using notes then say that you are not.
-
-			Relevant notes context:
-			${context.map((note, i) => `[Note ${i + 1}]: ${note}`).join('\n\n')}
-
-			Now answer the user's question based on the above context.`;
-
-			// Convert messages to Gemini format
-			const formattedMessages = messages.map(msg => ({
-				role: msg.role === 'user' ? 'user' : 'model',
-				parts: [{ text: msg.content }]
-			}));
-
-			// Add system prompt as first message if we have context
-			if (context.length > 0) {
-				formattedMessages.unshift({
-					role: 'user',
-					parts: [{ text: systemPrompt }]
-				}, {
-					role: 'model',
-					parts: [{ text: 'I understand. I\'ll answer questions based on the provided note excerpts and cite my sources.' }]
-				});
-			}
-
-			// Start chat session
-			const chat = this.chatModel.startChat({
-				history: formattedMessages.slice(0, -1), // All messages except the last one
-				generationConfig: {
-					temperature: this.settings.temperature || 0.7,
-					topK: 40,
-					topP: 0.95,
-					maxOutputTokens: 8192,
-				}
-			});
+			const chat = this.startChat(messages, context);
 
 			// Send the last message and get response
 			const lastMessage = messages[messages.length - 1];
@@ -141,10 +183,90 @@ export class GeminiService {
 		}
 	}
 
+	async streamChat(messages: ChatMessage[], context: string[], onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+		let text = '';
+
+		try {
+			const chat = this.startChat(messages, context);
+			const lastMessage = messages[messages.length - 1];
+			const result = await chat.sendMessageStream(lastMessage.content, { signal });
+
+			// Read the async generator by hand, the compile target has no for await
+			const stream = result.stream;
+			while (!(signal && signal.aborted)) {
+				const { value, done } = await stream.next();
+				if (done) {
+					break;
+				}
+
+				const token = value.text();
+				if (token) {
+					text += token;
+					onToken(token);
+				}
+			}
+
+			return text;
+
+		} catch (error) {
+			if (signal && signal.aborted) {
+				return text;
+			}
+			console.error('Chat error:', error);
+			throw new Error(`Chat failed: ${error.message}`);
+		}
+	}
+
+	async complete(prompt: string): Promise<string> {
+		try {
+			const result = await this.chatModel.generateContent({
+				contents: [{ role: 'user', parts: [{ text: prompt }] }],
+				generationConfig: { temperature: 0, maxOutputTokens: 1024 }
+			});
+			return result.response.text();
+		} catch (error) {
+			console.error('Completion error:', error);
+			throw new Error(`Completion failed: ${error.message}`);
+		}
+	}
+
+	private startChat(messages: ChatMessage[], context: string[]) {
+		// Build the prompt with context
+		const systemPrompt = buildSystemPrompt(context);
+
+		// Convert messages to Gemini format
+		const formattedMessages = messages.map(msg => ({
+			role: msg.role === 'user' ? 'user' : 'model',
+			parts: [{ text: msg.content }]
+		}));
+
+		// Add system prompt as first message if we have context
+		if (context.length > 0) {
+			formattedMessages.unshift({
+				role: 'user',
+				parts: [{ text: systemPrompt }]
+			}, {
+				role: 'model',
+				parts: [{ text: 'I understand. I\'ll answer questions based on the provided note excerpts and cite my sources.' }]
+			});
+		}
+
+		// Start chat session
+		return this.chatModel.startChat({
+			history: formattedMessages.slice(0, -1), // All messages except the last one
+			generationConfig: {
+				temperature: this.settings.temperature ?? 0.7,
+				topK: 40,
+				topP: 0.95,
+				maxOutputTokens: 8192,
+			}
+		});
+	}
+
 	async testConnection(): Promise<boolean> {
 		try {
 			// Try to generate a simple embedding as a test
-			const test = await this.generateEmbedding("test");
+			const test = await this.embedQuery("test");
 			return test && test.length > 0;
 		} catch (error) {
 			console.error('Connection test failed:', error);
@@ -0,0 +1,101 @@
+import { App } from 'obsidian';
+import { GraphExpansion, SearchFilter, SearchResult, VectorDatabase } from './vector-db';
+
+export interface ExpansionOptions {
+	depth: number;        // Link hops to follow from each search hit
+	budget: number;       // Most notes to add
+	boost: number;        // Similarity bonus for a 1-hop neighbour, divided by the hop count
+}
+
+interface LinkNeighbor {
+	seed: string;
+	relation: 'outlink' | 'backlink';
+	hops: number;
+}
+
+/**
+ * Add notes linked to or from the search hits. Neighbours are ranked by their
+ * own similarity to the question plus a proximity boost, and the best ones
+ * within the budget are appended after the original hits.
+ */
+export async function expandWithLinks(
+	app: App,
+	vectorDb: VectorDatabase,
+	results: SearchResult[],
+	queryEmbedding: number[],
+	options: ExpansionOptions,
+	filter?: SearchFilter
+): Promise<SearchResult[]> {
+	if (results.length === 0 || options.budget <= 0 || options.depth <= 0 || queryEmbedding.length === 0) {
+		return results;
+	}
+
+	const seeds = results.map(result => result.note.path);
+	const neighbors = collectNeighbors(app, seeds, options.depth);
+	if (neighbors.size === 0) {
+		return results;
+	}
+
+	const scored = await vectorDb.scoreNotes(Array.from(neighbors.keys()), queryEmbedding, filter);
+	const expanded = scored.map(result => {
+		const neighbor = neighbors.get(result.note.path)!;
+		const boost = options.boost / neighbor.hops;
+		const expansion: GraphExpansion = {
+			seed: neighbor.seed,
+			relation: neighbor.relation,
+			hops: neighbor.hops,
+			boost
+		};
+		return { ...result, score: result.similarity + boost, expansion };
+	});
+
+	expanded.sort((a, b) => b.score - a.score);
+	return results.concat(expanded.slice(0, options.budget));
+}
+
+/**
+ * Breadth-first walk over resolved links and backlinks, recording for each
+ * reached note the hit it came from and how far away it is.
+ */
+function collectNeighbors(app: App, seeds: string[], depth: number): Map<string, LinkNeighbor> {
+	const resolvedLinks = app.metadataCache.resolvedLinks;
+
+	// Invert the link map once so backlinks are a lookup
+	const backlinks = new Map<string, string[]>();
+	Object.keys(resolvedLinks).forEach(source => {
+		Object.keys(resolvedLinks[source]).forEach(target => {
+			let sources = backlinks.get(target);
+			if (!sources) {
+				sources = [];
+				backlinks.set(target, sources);
+			}
+			sources.push(source);
+		});
+	});
+
+	const visited = new Set<string>(seeds);
+	const neighbors = new Map<string, LinkNeighbor>();
+	let frontier = seeds.map(path => ({ path, seed: path }));
+
+	for (let hops = 1; hops <= depth && frontier.length > 0; hops++) {
+		const next: { path: string, seed: string }[] = [];
+
+		const visit = (path: string, seed: string, relation: 'outlink' | 'backlink') => {
+			if (visited.has(path) || !path.endsWith('.md')) {
+				return;
+			}
+			visited.add(path);
+			neighbors.set(path, { seed, relation, hops });
+			next.push({ path, seed });
+		};
+
+		frontier.forEach(({ path, seed }) => {
+			Object.keys(resolvedLinks[path] || {}).forEach(target => visit(target, seed, 'outlink'));
+			(backlinks.get(path) || []).forEach(source => visit(source, seed, 'backlink'));
+		});
+
+		frontier = next;
+	}
+
+	return neighbors;
+}
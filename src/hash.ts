@@ -0,0 +1,22 @@
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), returned as hex.
+ * Used to detect unchanged content, not for anything security related.
+ */
+export function hashContent(text: string, seed: number = 0): string {
+	let h1 = 0xdeadbeef ^ seed;
+	let h2 = 0x41c6ce57 ^ seed;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+	const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+	return hash.toString(16);
+}
@@ -0,0 +1,49 @@
+import { App, TFile, parseLinktext } from 'obsidian';
+
+export interface ImageDescription {
+	text: string;         // Alt text the image is embedded with
+	notePath: string;     // Note that embeds it
+}
+
+/**
+ * Alt texts the image is shown with in notes, from ![alt](image.png) and
+ * ![[image.png|alt]]. Sizes such as |300 are not descriptions, and notes
+ * kept out of the index do not give theirs away.
+ */
+export function findImageDescriptions(app: App, file: TFile, isExcluded: (note: TFile) => boolean): ImageDescription[] {
+	const resolvedLinks = app.metadataCache.resolvedLinks;
+	const descriptions: ImageDescription[] = [];
+	const seen = new Set<string>();
+
+	Object.keys(resolvedLinks).sort().forEach(sourcePath => {
+		if (!resolvedLinks[sourcePath][file.path]) {
+			return;
+		}
+
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		if (!(source instanceof TFile) || isExcluded(source)) {
+			return;
+		}
+
+		const cache = app.metadataCache.getFileCache(source);
+		((cache && cache.embeds) || []).forEach(embed => {
+			const destination = app.metadataCache.getFirstLinkpathDest(parseLinktext(embed.link).path, sourcePath);
+			const text = altText(embed.displayText, embed.link);
+			if (destination && destination.path === file.path && text && !seen.has(text)) {
+				seen.add(text);
+				descriptions.push({ text, notePath: sourcePath });
+			}
+		});
+	});
+
+	return descriptions;
+}
+
+function altText(displayText: string | undefined, link: string): string {
+	const text = (displayText || '').trim().replace(/\|\d+(x\d+)?$/, '');
+	// Without an alias the display text is the link itself
+	if (!text || /^\d+(x\d+)?$/.test(text) || text === link || text === link.split('/').pop()) {
+		return '';
+	}
+	return text;
+}
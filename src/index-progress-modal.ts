@@ -0,0 +1,110 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import type { IndexProgress, NoteIndexer } from './indexer';
+
+/**
+ * Live progress of a full index run with a Cancel button. Closing the modal
+ * leaves the run going in the background; the status bar keeps counting.
+ */
+export class IndexProgressModal extends Modal {
+	private indexer: NoteIndexer;
+	private unsubscribe: (() => void) | null = null;
+	private progressEl: HTMLProgressElement;
+	private countsEl: HTMLElement;
+	private detailsEl: HTMLElement;
+	private timeEl: HTMLElement;
+	private cancelButton: ButtonComponent;
+	private closeButton: ButtonComponent;
+
+	constructor(app: App, indexer: NoteIndexer) {
+		super(app);
+		this.indexer = indexer;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass('gemini-index-progress');
+		contentEl.createEl('h3', { text: 'Indexing notes' });
+
+		this.progressEl = contentEl.createEl('progress');
+		this.countsEl = contentEl.createDiv({ cls: 'gemini-index-progress-counts' });
+		this.detailsEl = contentEl.createDiv({ cls: 'gemini-index-progress-details' });
+		this.timeEl = contentEl.createDiv({ cls: 'gemini-index-progress-details' });
+
+		new Setting(contentEl)
+			.addButton(button => {
+				this.closeButton = button
+					.setButtonText('Run in background')
+					.onClick(() => this.close());
+			})
+			.addButton(button => {
+				this.cancelButton = button
+					.setButtonText('Cancel')
+					.setWarning()
+					.onClick(() => this.indexer.cancel());
+			});
+
+		this.unsubscribe = this.indexer.onProgress(progress => this.render(progress));
+		const progress = this.indexer.getProgress();
+		if (progress) {
+			this.render(progress);
+		}
+	}
+
+	onClose() {
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		this.contentEl.empty();
+	}
+
+	private render(progress: IndexProgress) {
+		const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 100;
+		this.progressEl.max = Math.max(progress.total, 1);
+		this.progressEl.value = progress.processed;
+
+		this.countsEl.setText(`${progress.processed} of ${progress.total} notes checked (${percent}%)`);
+
+		const details = [`${progress.indexed} embedded`];
+		if (progress.resumed > 0) {
+			details.push(`${progress.resumed} done before a restart`);
+		}
+		if (progress.failedChunks > 0) {
+			details.push(`${progress.failedChunks} chunks failed`);
+		}
+		this.detailsEl.setText(details.join(' · '));
+
+		const elapsed = Date.now() - progress.startedAt;
+		switch (progress.state) {
+			case 'running': {
+				const done = progress.processed - progress.resumed;
+				const left = progress.total - progress.processed;
+				const eta = done > 0 ? (elapsed / done) * left : null;
+				this.timeEl.setText(`Elapsed ${formatDuration(elapsed)}${eta !== null ? ` · about ${formatDuration(eta)} left` : ''}`);
+				break;
+			}
+			case 'cancelling':
+				this.timeEl.setText('Stopping after the current batch...');
+				this.cancelButton.setDisabled(true);
+				break;
+			default:
+				this.timeEl.setText(progress.state === 'done'
+					? `Finished in ${formatDuration(elapsed)}`
+					: progress.state === 'cancelled' ? 'Cancelled, indexed notes were kept' : 'Indexing failed, running it again continues where it stopped');
+				this.cancelButton.buttonEl.hide();
+				this.closeButton.setButtonText('Close').setCta();
+		}
+	}
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) {
+		return `${seconds}s`;
+	}
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m ${seconds % 60}s`;
+	}
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,183 @@
+import { App, TFile } from 'obsidian';
+import { NoteIndexer } from './indexer';
+import { VectorDatabase } from './vector-db';
+
+type IndexTask =
+	| { type: 'upsert', file: TFile }
+	| { type: 'rename', file: TFile, oldPath: string }
+	| { type: 'delete', path: string };
+
+const DEBOUNCE_MS = 2000;
+const BATCH_SIZE = 10;
+
+/**
+ * Collects vault changes and applies them to the index after a quiet period.
+ * Tasks are keyed by note path so repeated edits to one note collapse into a
+ * single re-embed.
+ */
+export class IndexQueue {
+	private app: App;
+	private indexer: NoteIndexer;
+	private vectorDb: VectorDatabase;
+	private pending: Map<string, IndexTask> = new Map();
+	private timer: number | null = null;
+	private processing: boolean = false;
+	private onChange: (depth: number, processing: boolean) => void;
+
+	constructor(
+		app: App,
+		indexer: NoteIndexer,
+		vectorDb: VectorDatabase,
+		onChange: (depth: number, processing: boolean) => void
+	) {
+		this.app = app;
+		this.indexer = indexer;
+		this.vectorDb = vectorDb;
+		this.onChange = onChange;
+	}
+
+	enqueueUpsert(file: TFile) {
+		const existing = this.pending.get(file.path);
+
+		// A pending rename still needs its entries moved before re-embedding
+		if (existing && existing.type === 'rename') {
+			this.pending.set(file.path, { type: 'rename', file, oldPath: existing.oldPath });
+		} else {
+			this.pending.set(file.path, { type: 'upsert', file });
+		}
+		this.schedule();
+	}
+
+	enqueueRename(file: TFile, oldPath: string) {
+		const existing = this.pending.get(oldPath);
+		this.pending.delete(oldPath);
+
+		if (existing && existing.type === 'upsert') {
+			// The note changed anyway, so drop the old entries and embed it under its new path
+			this.pending.set(oldPath, { type: 'delete', path: oldPath });
+			this.pending.set(file.path, { type: 'upsert', file });
+		} else {
+			const originalPath = existing && existing.type === 'rename' ? existing.oldPath : oldPath;
+			this.pending.set(file.path, { type: 'rename', file, oldPath: originalPath });
+		}
+		this.schedule();
+	}
+
+	enqueueDelete(path: string) {
+		const existing = this.pending.get(path);
+		this.pending.set(path, { type: 'delete', path });
+
+		// Deleting a freshly renamed note must also drop the entries under its old path
+		if (existing && existing.type === 'rename') {
+			this.pending.set(existing.oldPath, { type: 'delete', path: existing.oldPath });
+		}
+		this.schedule();
+	}
+
+	getDepth(): number {
+		return this.pending.size;
+	}
+
+	clear() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.pending.clear();
+		this.notify();
+	}
+
+	private schedule() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.process();
+		}, DEBOUNCE_MS);
+		this.notify();
+	}
+
+	private notify() {
+		this.onChange(this.pending.size, this.processing);
+	}
+
+	private async process() {
+		if (this.processing) {
+			return;
+		}
+
+		this.processing = true;
+		this.notify();
+
+		let tasks: IndexTask[] = [];
+		try {
+			while (this.pending.size > 0) {
+				tasks = Array.from(this.pending.values()).slice(0, BATCH_SIZE);
+				tasks.forEach(task => this.pending.delete(taskPath(task)));
+
+				// Let a full indexing run finish first, the tasks run after it
+				if (!(await this.indexer.runLiveBatch(() => this.runTasks(tasks)))) {
+					this.requeue(tasks);
+					this.schedule();
+					return;
+				}
+				this.notify();
+			}
+		} catch (error) {
+			console.error('Live indexing error:', error);
+
+			// Try the failed batch again after the next quiet period
+			this.requeue(tasks);
+			this.schedule();
+		} finally {
+			this.processing = false;
+			this.notify();
+		}
+	}
+
+	/**
+	 * Puts tasks back in the queue without undoing changes queued while
+	 * they ran. A rename followed by an edit still needs its entries moved.
+	 */
+	private requeue(tasks: IndexTask[]) {
+		tasks.forEach(task => {
+			const newer = this.pending.get(taskPath(task));
+			if (!newer) {
+				this.pending.set(taskPath(task), task);
+			} else if (task.type === 'rename' && newer.type === 'upsert') {
+				this.pending.set(taskPath(task), { type: 'rename', file: newer.file, oldPath: task.oldPath });
+			}
+		});
+	}
+
+	private async runTasks(tasks: IndexTask[]) {
+		const toEmbed: TFile[] = [];
+
+		for (const task of tasks) {
+			if (task.type === 'delete') {
+				await this.vectorDb.removeNote(task.path);
+			} else if (task.type === 'rename') {
+				await this.vectorDb.renameNote(task.oldPath, task.file.path, task.file.basename);
+
+				// Unchanged chunks keep their embeddings, only edits made while moving are re-embedded
+				toEmbed.push(task.file);
+			} else {
+				toEmbed.push(task.file);
+			}
+		}
+
+		// Skip files that disappeared while they were queued, and notes the
+		// metadata cache has not read yet: their exclusion rules are unknown,
+		// they come back with the cache's changed event
+		const files = toEmbed.filter(file => this.app.vault.getAbstractFileByPath(file.path) instanceof TFile
+			&& (file.extension !== 'md' || this.app.metadataCache.getFileCache(file) !== null));
+		if (files.length > 0) {
+			await this.indexer.indexNotes(files);
+		}
+	}
+}
+
+function taskPath(task: IndexTask): string {
+	return task.type === 'delete' ? task.path : task.file.path;
+}
@@ -1,33 +1,122 @@
 import { App, TFile, Notice } from 'obsidian';
-import { GeminiService } from './gemini-service';
+import { AIProvider } from './provider';
 import { VectorDatabase, VectorEntry } from './vector-db';
+import { chunkMarkdown, NoteChunk } from './chunker';
+import { hashContent } from './hash';
+import { ExclusionRules } from './exclusions';
+import { FailedEmbeddings } from './failed-embeddings';
+import { IndexProgressModal } from './index-progress-modal';
+import { NoteMetadata, parsePropertyKeys, preprocessChunk, readNoteMetadata, readNoteStructure } from './note-preprocessor';
+import { ContentExtractors, FileType, pageOfLine } from './extractors';
+
+// Bump whenever chunking or preprocessing changes so stored chunks are rebuilt
+export const PREPROCESSING_VERSION = 3;
+
+// Notes read and embedded together
+const BATCH_SIZE = 5;
+// Batches between writes of the collected vectors and the checkpoint
+const CHECKPOINT_BATCHES = 10;
+const CHECKPOINT_PATH = '.obsidian/plugins/gemini-vector-chat/index-checkpoint.json';
+
+export type IndexState = 'running' | 'cancelling' | 'done' | 'cancelled' | 'failed';
+
+// How a call to indexAllNotes ended. Its notices already tell the user, so
+// callers only need this to decide what to refresh.
+export interface IndexRunResult {
+	status: 'completed' | 'cancelled' | 'already-running';
+	indexed: number;      // Notes that were (re-)embedded
+}
+
+export interface IndexProgress {
+	state: IndexState;
+	total: number;        // Notes in the run
+	processed: number;    // Notes checked so far, unchanged ones included
+	indexed: number;      // Notes that were (re-)embedded
+	failedChunks: number; // Chunks currently waiting for a retry
+	resumed: number;      // Notes already done by an interrupted earlier run
+	startedAt: number;
+}
+
+// Written every few batches so a run cut short by a crash or restart can
+// continue where it stopped. Files are processed in path order.
+interface IndexCheckpoint {
+	startedAt: number;
+	updatedAt: number;
+	lastPath: string;     // Last note that made it into the database
+}
+
+interface PreparedChunk {
+	chunk: NoteChunk;
+	index: number;
+	content: string;      // Text sent to the embedding model
+	title: string;        // Note title, sent along as the document title
+	page?: number;        // Page the chunk starts on, for paged documents
+	hash: string;         // Hash of the preprocessed chunk body
+	embedding?: number[]; // Reused embedding when the hash is unchanged
+}
+
+interface PreparedNote {
+	file: TFile;
+	fileType: FileType;
+	chunks: PreparedChunk[];
+	metadata: NoteMetadata;
+}
 
 export class NoteIndexer {
 	private app: App;
-	private geminiService: GeminiService;
+	private provider: AIProvider;
 	private vectorDb: VectorDatabase;
+	private exclusions: ExclusionRules;
+	private extractors: ContentExtractors;
 	private plugin: any;
+	private failures: FailedEmbeddings;
 	private isIndexing: boolean = false;
+	private cancelRequested: boolean = false;
+	private resumeLater: boolean = false;   // Keep the checkpoint when cancelled
+	private liveBatch: Promise<void> | null = null; // Live changes being applied
+	private runFinished: Promise<void> = Promise.resolve(); // Settles when the full run in progress ends
+	private progress: IndexProgress | null = null;
+	private progressListeners: Set<(progress: IndexProgress) => void> = new Set();
 
 	constructor(
 		app: App,
-		geminiService: GeminiService,
+		provider: AIProvider,
 		vectorDb: VectorDatabase,
+		exclusions: ExclusionRules,
+		extractors: ContentExtractors,
 		plugin: any
 	) {
 		this.app = app;
-		this.geminiService = geminiService;
+		this.provider = provider;
 		this.vectorDb = vectorDb;
+		this.exclusions = exclusions;
+		this.extractors = extractors;
 		this.plugin = plugin;
+		this.failures = new FailedEmbeddings(app, '.obsidian/plugins/gemini-vector-chat/failed-embeddings.json');
 	}
 
-	async indexAllNotes(showProgress: boolean = true): Promise<number> {
+	/**
+	 * Index every note, writing to the database and a checkpoint every few
+	 * batches. A run interrupted by a crash or restart resumes after the
+	 * last checkpoint; cancel() stops it after the current batch. Reports
+	 * the outcome with a notice, callers should not add their own.
+	 */
+	async indexAllNotes(showProgress: boolean = true): Promise<IndexRunResult> {
+		await this.waitForLiveBatch();
 		if (this.isIndexing) {
-			new Notice('Indexing already in progress');
-			return 0;
+			if (showProgress && this.progress) {
+				new IndexProgressModal(this.app, this).open();
+			} else {
+				new Notice('Indexing already in progress');
+			}
+			return { status: 'already-running', indexed: 0 };
 		}
 
 		this.isIndexing = true;
+		this.cancelRequested = false;
+		this.resumeLater = false;
+		let finishRun = () => {};
+		this.runFinished = new Promise(resolve => finishRun = resolve);
 		let indexed = 0;
 
 		try {
@@ -37,57 +126,192 @@ export class NoteIndexer {
 				console.log(`Removed ${deletedCount} deleted notes from index`);
 			}
 
-			// Get all markdown files
-			const files = this.app.vault.getMarkdownFiles();
+			// Drop notes that the exclusion rules now keep out of the index
+			const excludedCount = await this.purgeExcludedNotes();
+			if (excludedCount > 0 && showProgress) {
+				console.log(`Removed ${excludedCount} excluded notes from index`);
+			}
+
+			// Get all files that may be indexed, in a stable order for checkpoints
+			const files = this.exclusions.getIndexableFiles()
+				.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
 			const totalFiles = files.length;
 
 			if (totalFiles === 0) {
 				new Notice('No notes found to index');
-				return 0;
+				return { status: 'completed', indexed: 0 };
 			}
 
+			// Skip notes an interrupted run already finished, unless edited since
+			const checkpoint = await this.readCheckpoint();
+			const remaining = checkpoint
+				? files.filter(file => file.path > checkpoint.lastPath || file.stat.mtime > checkpoint.updatedAt)
+				: files;
+			const startedAt = checkpoint ? checkpoint.startedAt : Date.now();
+
+			await this.failures.load();
+			this.progress = {
+				state: 'running',
+				total: totalFiles,
+				processed: totalFiles - remaining.length,
+				indexed: 0,
+				failedChunks: this.failures.chunkCount,
+				resumed: totalFiles - remaining.length,
+				startedAt: Date.now()
+			};
+			this.emitProgress();
+
 			if (showProgress) {
-				new Notice(`Starting to index ${totalFiles} notes...`);
+				new IndexProgressModal(this.app, this).open();
 			}
 
-			// Process in batches
-			const batchSize = 5;
 			const entries: VectorEntry[] = [];
+			let lastPath = checkpoint ? checkpoint.lastPath : '';
 
-			for (let i = 0; i < files.length; i += batchSize) {
-				const batch = files.slice(i, i + batchSize);
+			for (let i = 0; i < remaining.length && !this.cancelRequested; i += BATCH_SIZE) {
+				const batch = remaining.slice(i, i + BATCH_SIZE);
 				const batchEntries = await this.processBatch(batch);
+				lastPath = batch[batch.length - 1].path;
 				entries.push(...batchEntries);
-				indexed += batchEntries.length;
-
-				// Show progress
-				if (showProgress && i % 10 === 0) {
-					const progress = Math.round((i / totalFiles) * 100);
-					new Notice(`Indexing progress: ${progress}%`, 2000);
+				indexed += new Set(batchEntries.map(entry => entry.path)).size;
+
+				this.progress.processed += batch.length;
+				this.progress.indexed = indexed;
+				this.progress.failedChunks = this.failures.chunkCount;
+				this.emitProgress();
+
+				// Save what we have so a restart does not lose it
+				const batchNumber = i / BATCH_SIZE + 1;
+				if (batchNumber % CHECKPOINT_BATCHES === 0) {
+					await this.saveEntries(entries);
+					await this.writeCheckpoint({ startedAt, updatedAt: Date.now(), lastPath });
 				}
 			}
 
-			// Save all vectors to database
-			if (entries.length > 0) {
-				await this.vectorDb.addVectors(entries);
+			// Save the rest of the vectors to the database
+			await this.saveEntries(entries);
+
+			if (this.cancelRequested && this.resumeLater) {
+				await this.writeCheckpoint({ startedAt, updatedAt: Date.now(), lastPath });
+				this.finishProgress('cancelled');
+				new Notice(`Indexing paused at ${this.progress.processed} of ${totalFiles} notes, it will resume on the next start`);
+				return { status: 'cancelled', indexed };
 			}
+			await this.removeCheckpoint();
 
-			if (showProgress) {
-				new Notice(`Successfully indexed ${indexed} notes!`);
+			if (this.cancelRequested) {
+				this.finishProgress('cancelled');
+				new Notice(`Indexing cancelled after ${this.progress.processed} of ${totalFiles} notes`);
+				return { status: 'cancelled', indexed };
 			}
 
-			return indexed;
+			this.finishProgress('done');
+			new Notice(`Successfully indexed ${indexed} notes!`);
+			this.reportFailures();
+
+			return { status: 'completed', indexed };
 
 		} catch (error) {
+			// The checkpoint stays, the next run picks up from it
+			this.finishProgress('failed');
 			console.error('Indexing error:', error);
 			new Notice(`Indexing failed: ${error.message}`);
 			throw error;
 		} finally {
 			this.isIndexing = false;
+			this.cancelRequested = false;
+			finishRun();
+		}
+	}
+
+	/**
+	 * Stop a full index run after the batch in progress. Vectors embedded so
+	 * far are kept; with resumeLater the next start continues the run.
+	 */
+	cancel(resumeLater: boolean = false) {
+		if (this.isIndexing && this.progress && this.progress.state === 'running') {
+			this.cancelRequested = true;
+			this.resumeLater = resumeLater;
+			this.progress.state = 'cancelling';
+			this.emitProgress();
+		}
+	}
+
+	/**
+	 * Pause a full index run for the next start to resume. Resolves once the
+	 * batch in progress and the checkpoint are saved.
+	 */
+	async stop(): Promise<void> {
+		this.cancel(true);
+		await this.runFinished;
+	}
+
+	getProgress(): IndexProgress | null {
+		return this.progress;
+	}
+
+	/**
+	 * Listen for progress of full index runs. Returns a function that removes
+	 * the listener.
+	 */
+	onProgress(listener: (progress: IndexProgress) => void): () => void {
+		this.progressListeners.add(listener);
+		return () => this.progressListeners.delete(listener);
+	}
+
+	async hasCheckpoint(): Promise<boolean> {
+		return !!(await this.readCheckpoint());
+	}
+
+	private emitProgress() {
+		if (this.progress) {
+			const progress = this.progress;
+			this.progressListeners.forEach(listener => listener(progress));
+		}
+	}
+
+	private finishProgress(state: IndexState) {
+		if (this.progress) {
+			this.progress.state = state;
+			this.emitProgress();
+		}
+	}
+
+	private async saveEntries(entries: VectorEntry[]) {
+		if (entries.length > 0) {
+			await this.vectorDb.addVectors(entries);
+			entries.length = 0;
+		}
+		await this.vectorDb.flush();
+	}
+
+	private async readCheckpoint(): Promise<IndexCheckpoint | null> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(CHECKPOINT_PATH))) {
+			return null;
+		}
+
+		try {
+			return JSON.parse(await adapter.read(CHECKPOINT_PATH));
+		} catch (error) {
+			console.error('Failed to read indexing checkpoint:', error);
+			return null;
+		}
+	}
+
+	private async writeCheckpoint(checkpoint: IndexCheckpoint) {
+		await this.app.vault.adapter.write(CHECKPOINT_PATH, JSON.stringify(checkpoint));
+	}
+
+	private async removeCheckpoint() {
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(CHECKPOINT_PATH)) {
+			await adapter.remove(CHECKPOINT_PATH);
 		}
 	}
 
 	async indexModifiedNotes(): Promise<number> {
+		await this.waitForLiveBatch();
 		if (this.isIndexing) {
 			return 0;
 		}
@@ -96,8 +320,10 @@ export class NoteIndexer {
 		let indexed = 0;
 
 		try {
-			// Get modified notes
-			const modifiedFiles = await this.vectorDb.getModifiedNotes();
+			await this.purgeExcludedNotes();
+
+			// Get notes whose content no longer matches the index
+			const modifiedFiles = await this.getStaleNotes();
 
 			if (modifiedFiles.length === 0) {
 				return 0;
@@ -110,7 +336,7 @@ export class NoteIndexer {
 
 			if (entries.length > 0) {
 				await this.vectorDb.addVectors(entries);
-				indexed = entries.length;
+				indexed = new Set(entries.map(entry => entry.path)).size;
 			}
 
 			return indexed;
@@ -123,113 +349,413 @@ export class NoteIndexer {
 		}
 	}
 
+	/**
+	 * Re-embed only the notes that had chunks fail during earlier runs.
+	 */
+	async retryFailedNotes(): Promise<number> {
+		await this.waitForLiveBatch();
+		if (this.isIndexing) {
+			new Notice('Indexing already in progress');
+			return 0;
+		}
+
+		this.isIndexing = true;
+
+		try {
+			await this.failures.load();
+			const files: TFile[] = [];
+			this.failures.list().forEach(failure => {
+				const file = this.app.vault.getAbstractFileByPath(failure.path);
+				if (file instanceof TFile && this.extractors.isSupported(file) && !this.exclusions.isExcluded(file)) {
+					files.push(file);
+				} else {
+					// Deleted or excluded since, nothing to retry
+					this.failures.clear(failure.path);
+				}
+			});
+
+			const indexed = files.length > 0 ? await this.indexNotes(files) : 0;
+			await this.failures.save();
+			await this.vectorDb.flush();
+			return indexed;
+		} finally {
+			this.isIndexing = false;
+		}
+	}
+
+	async getFailedCount(): Promise<number> {
+		await this.failures.load();
+		return this.failures.size;
+	}
+
+	private reportFailures() {
+		if (this.failures.size > 0) {
+			new Notice(`${this.failures.chunkCount} chunks in ${this.failures.size} notes could not be embedded. Run "Retry failed embeddings" to try them again.`, 8000);
+		}
+	}
+
+	async needsReindexing(): Promise<boolean> {
+		const files = this.exclusions.getIndexableFiles();
+		if (await this.vectorDb.needsReindexing(this.getEmbeddingModel(), this.provider.getEmbeddingScheme(), PREPROCESSING_VERSION)) {
+			return true;
+		}
+
+		// Notes missing from the index. Notes without text have no chunks and
+		// are not stale, failed ones wait for "Retry failed embeddings".
+		await this.failures.load();
+		const indexed = new Set(await this.vectorDb.getAllNoteIds());
+		for (const file of files) {
+			if (!indexed.has(file.path) && !this.failures.has(file.path) && await this.isStale(file)) {
+				return true;
+			}
+		}
+
+		// Check a sample of files for content changes
+		const sampleSize = Math.min(10, files.length);
+		for (let i = 0; i < sampleSize; i++) {
+			const file = files[Math.floor(Math.random() * files.length)];
+			if (await this.isStale(file)) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	async getStaleNotes(): Promise<TFile[]> {
+		const staleFiles: TFile[] = [];
+
+		for (const file of this.exclusions.getIndexableFiles()) {
+			if (await this.isStale(file)) {
+				staleFiles.push(file);
+			}
+		}
+
+		return staleFiles;
+	}
+
+	/**
+	 * Remove indexed notes that the exclusion rules now keep out of the index,
+	 * and files whose type is no longer indexed.
+	 */
+	async purgeExcludedNotes(): Promise<number> {
+		let removed = 0;
+
+		for (const path of await this.vectorDb.getAllNoteIds()) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile && (this.exclusions.isExcluded(file) || !this.extractors.isSupported(file))) {
+				await this.vectorDb.removeNote(path);
+				removed++;
+			}
+		}
+
+		return removed;
+	}
+
+	private async isStale(file: TFile): Promise<boolean> {
+		try {
+			const existing = await this.vectorDb.getNoteVectors(file.path);
+			if (this.isUnmodified(file, existing)) {
+				return false;
+			}
+			const prepared = await this.prepareNote(file);
+			return !this.isUnchanged(prepared, existing);
+		} catch (error) {
+			console.error(`Error checking ${file.path}:`, error);
+			return false;
+		}
+	}
+
+	private getEmbeddingModel(): string {
+		return this.provider.getEmbeddingModelId();
+	}
+
+	private isCurrentEntry(entry: VectorEntry): boolean {
+		return entry.embeddingModel === this.getEmbeddingModel()
+			&& entry.embeddingScheme === this.provider.getEmbeddingScheme()
+			&& entry.preprocessingVersion === PREPROCESSING_VERSION;
+	}
+
+	/**
+	 * A note is unchanged when every chunk still has the same hash and position
+	 * and was embedded with the current model and preprocessing. Modification
+	 * times are deliberately ignored, sync tools rewrite them freely.
+	 */
+	private isUnchanged(prepared: PreparedNote, existing: VectorEntry[]): boolean {
+		if (prepared.chunks.length !== existing.length) {
+			return false;
+		}
+
+		// Tags and stored properties can change without touching the text
+		const metadata = JSON.stringify(this.describeMetadata(prepared.metadata));
+		const byId = new Map(existing.map(entry => [entry.id, entry] as [string, VectorEntry]));
+		return prepared.chunks.every(item => {
+			const entry = byId.get(`${prepared.file.path}#${item.index}`);
+			return !!entry
+				&& this.isCurrentEntry(entry)
+				&& entry.contentHash === item.hash
+				&& JSON.stringify(this.describeMetadata(entry)) === metadata
+				&& entry.startLine === item.chunk.startLine
+				&& entry.endLine === item.chunk.endLine;
+		});
+	}
+
+	/**
+	 * Files that are slow to extract, like PDFs, count as unchanged while their
+	 * modification time matches the index and none of their chunks failed.
+	 */
+	private isUnmodified(file: TFile, existing: VectorEntry[]): boolean {
+		const extractor = this.extractors.get(file);
+		return !!extractor && !!extractor.expensive
+			&& existing.length > 0
+			&& !this.failures.has(file.path)
+			&& existing.every(entry => this.isCurrentEntry(entry) && entry.modified === file.stat.mtime);
+	}
+
+	private describeMetadata(source: { tags?: string[], aliases?: string[], properties?: { [key: string]: string } }) {
+		return [source.tags || [], source.aliases || [], source.properties || {}];
+	}
+
+	private async prepareNote(file: TFile): Promise<PreparedNote> {
+		const extractor = this.extractors.get(file);
+		if (!extractor) {
+			throw new Error(`No extractor for .${file.extension} files`);
+		}
+
+		const { text, pageStarts } = await extractor.extract(this.app, file, {
+			isExcluded: embedded => this.exclusions.isExcluded(embedded)
+		});
+		const metadata = readNoteMetadata(this.app, file, parsePropertyKeys(this.plugin.settings.indexedProperties));
+		const noteHeader = this.buildNoteHeader(metadata);
+		// Where links, callouts and tables are, for notes the metadata cache describes
+		const structure = extractor.fileType === 'markdown' ? readNoteStructure(this.app, file, text) : null;
+		const chunks: PreparedChunk[] = [];
+
+		const noteChunks = this.chunkNote(text, metadata, extractor.fileType);
+		for (let index = 0; index < noteChunks.length; index++) {
+			const chunk = noteChunks[index];
+			const body = await preprocessChunk(this.app, file, structure, chunk, {
+				inlineEmbeds: this.plugin.settings.inlineEmbeds,
+				isExcluded: embedded => this.exclusions.isExcluded(embedded)
+			});
+			if (!body.trim()) {
+				continue;
+			}
+
+			const page = pageStarts ? pageOfLine(pageStarts, chunk.startLine) : undefined;
+			// Hash everything but the title and path, so renames keep their embeddings
+			chunks.push({
+				chunk,
+				index,
+				content: this.buildChunkText(file, chunk, noteHeader, body, page),
+				title: file.basename,
+				page,
+				hash: hashContent(`${chunk.headings.join('\n')}\n${noteHeader}\n${body}`)
+			});
+		}
+
+		return { file, fileType: extractor.fileType, chunks, metadata };
+	}
+
 	private async processBatch(files: TFile[]): Promise<VectorEntry[]> {
 		const entries: VectorEntry[] = [];
-		const contents: string[] = [];
-		const fileData: Array<{file: TFile, content: string}> = [];
+		const notes: PreparedNote[] = [];
+		const toEmbed: PreparedChunk[] = [];
+		await this.failures.load();
 
-		// Read all files in the batch
+		// Read and chunk all files in the batch
 		for (const file of files) {
 			try {
-				const content = await this.app.vault.cachedRead(file);
-				const processedContent = this.preprocessContent(content, file);
+				if (this.exclusions.isExcluded(file)) {
+					// Excluded notes are never sent to the API, drop anything already indexed
+					await this.vectorDb.removeNote(file.path);
+					continue;
+				}
+
+				const existing = await this.vectorDb.getNoteVectors(file.path);
+				if (this.isUnmodified(file, existing)) {
+					continue;
+				}
+
+				const prepared = await this.prepareNote(file);
+				if (this.isUnchanged(prepared, existing)) {
+					continue;
+				}
 
-				if (processedContent.trim()) {
-					contents.push(processedContent);
-					fileData.push({ file, content: processedContent });
+				if (prepared.chunks.length === 0) {
+					// The note has no indexable text anymore
+					await this.vectorDb.removeNote(file.path);
+					continue;
 				}
+
+				// Reuse embeddings of chunks whose text did not change
+				const reusable = new Map<string, number[]>();
+				existing.forEach(entry => {
+					if (entry.contentHash && this.isCurrentEntry(entry)) {
+						reusable.set(entry.contentHash, entry.embedding);
+					}
+				});
+
+				prepared.chunks.forEach(item => {
+					item.embedding = reusable.get(item.hash);
+					if (!item.embedding) {
+						toEmbed.push(item);
+					}
+				});
+
+				notes.push(prepared);
 			} catch (error) {
 				console.error(`Error reading file ${file.path}:`, error);
 			}
 		}
 
-		if (contents.length === 0) {
-			return entries;
+		// Generate embeddings only for new or changed chunks
+		if (toEmbed.length > 0) {
+			try {
+				const embeddings = await this.provider.embedDocuments(toEmbed.map(item => ({ text: item.content, title: item.title })));
+				toEmbed.forEach((item, i) => {
+					item.embedding = embeddings[i];
+				});
+			} catch (error) {
+				console.error('Error generating embeddings:', error);
+			}
 		}
 
-		// Generate embeddings for the batch
-		try {
-			const embeddings = await this.geminiService.generateEmbeddings(contents);
-
-			// Create vector entries
-			for (let i = 0; i < fileData.length; i++) {
-				const { file, content } = fileData[i];
-				const embedding = embeddings[i];
-
-				if (embedding && embedding.length > 0) {
-					entries.push({
-						id: file.path,
-						embedding: embedding,
-						content: content.substring(0, 3000), // Store first 3000 chars for context
-						title: file.basename,
-						modified: file.stat.mtime,
-						tags: this.extractTags(content)
-					});
-				}
+		// Create one vector entry per chunk, remembering chunks that failed
+		const failedPaths = new Set<string>();
+		for (const { file, fileType, chunks, metadata } of notes) {
+			const failed = chunks.filter(item => !item.embedding || item.embedding.length === 0);
+			if (failed.length > 0) {
+				// Keep the note's indexed chunks searchable until a retry embeds all of them
+				this.failures.record(file.path, failed.map(item => item.index));
+				failedPaths.add(file.path);
+				continue;
+			}
+
+			for (const item of chunks) {
+				entries.push({
+					id: `${file.path}#${item.index}`,
+					path: file.path,
+					embedding: item.embedding!,
+					content: item.content,
+					title: file.basename,
+					fileType,
+					page: item.page,
+					modified: file.stat.mtime,
+					tags: metadata.tags,
+					aliases: metadata.aliases.length > 0 ? metadata.aliases : undefined,
+					properties: Object.keys(metadata.properties).length > 0 ? metadata.properties : undefined,
+					headings: item.chunk.headings,
+					startLine: item.chunk.startLine,
+					endLine: item.chunk.endLine,
+					contentHash: item.hash,
+					embeddingModel: this.getEmbeddingModel(),
+					embeddingScheme: this.provider.getEmbeddingScheme(),
+					preprocessingVersion: PREPROCESSING_VERSION
+				});
 			}
-		} catch (error) {
-			console.error('Error generating embeddings:', error);
 		}
 
+		files.forEach(file => {
+			if (!failedPaths.has(file.path)) {
+				this.failures.clear(file.path);
+			}
+		});
+		await this.failures.save();
 		return entries;
 	}
 
-	private preprocessContent(content: string, file: TFile): string {
-		// Remove YAML frontmatter
-		content = content.replace(/^---[\s\S]*?---\n?/m, '');
-
-		// Remove code blocks (preserve the fact that there was code)
-		content = content.replace(/```[\s\S]*?```/g, '[code block]');
-		content = content.replace(/`[^`]+`/g, '[inline code]');
+	private chunkNote(content: string, metadata: NoteMetadata, fileType: FileType): NoteChunk[] {
+		// Skip the frontmatter but remember how many lines it occupied
+		let lineOffset = metadata.frontmatterLines;
+		if (lineOffset === 0 && fileType === 'markdown') {
+			// The metadata cache can lag behind a note that was just written
+			const frontmatterMatch = content.match(/^---\n[\s\S]*?\n---(\n|$)/);
+			if (frontmatterMatch) {
+				lineOffset = frontmatterMatch[0].split('\n').length - 1;
+			}
+		}
+		if (lineOffset > 0) {
+			content = content.split('\n').slice(lineOffset).join('\n');
+		}
 
-		// Remove excessive markdown formatting
-		content = content.replace(/^#+\s+/gm, ''); // Remove headers
-		content = content.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1'); // Convert links to text
-		content = content.replace(/!\[([^\]]*)\]\([^)]+\)/g, '[image: $1]'); // Handle images
-		content = content.replace(/\*\*([^*]+)\*\*/g, '$1'); // Remove bold
-		content = content.replace(/\*([^*]+)\*/g, '$1'); // Remove italic
-		content = content.replace(/__([^_]+)__/g, '$1'); // Remove bold
-		content = content.replace(/_([^_]+)_/g, '$1'); // Remove italic
+		return chunkMarkdown(content, {
+			chunkSize: this.plugin.settings.chunkSize || 1500,
+			chunkOverlap: this.plugin.settings.chunkOverlap ?? 200
+		}, lineOffset);
+	}
 
-		// Add file title at the beginning for better context
-		content = `Title: ${file.basename}\nPath: ${file.path}\n\n${content}`;
+	/**
+	 * Aliases, and the chosen properties when they are to be embedded, are
+	 * repeated on every chunk so each one carries what the note is about.
+	 */
+	private buildNoteHeader(metadata: NoteMetadata): string {
+		const lines: string[] = [];
+		if (metadata.aliases.length > 0) {
+			lines.push(`Aliases: ${metadata.aliases.join(', ')}`);
+		}
+		if (this.plugin.settings.embedProperties) {
+			Object.keys(metadata.properties).forEach(key => {
+				lines.push(`${key}: ${metadata.properties[key]}`);
+			});
+		}
+		return lines.join('\n');
+	}
 
-		// Clean up whitespace
-		content = content.replace(/\n{3,}/g, '\n\n'); // Max 2 newlines
-		content = content.trim();
+	private buildChunkText(file: TFile, chunk: NoteChunk, noteHeader: string, content: string, page?: number): string {
+		// Add file title and section at the beginning for better context
+		let header = `Title: ${file.basename}\nPath: ${file.path}\n`;
+		if (noteHeader) {
+			header += `${noteHeader}\n`;
+		}
+		if (page !== undefined) {
+			header += `Page: ${page}\n`;
+		}
+		if (chunk.headings.length > 0) {
+			header += `Section: ${chunk.headings.join(' > ')}\n`;
+		}
 
-		return content;
+		return `${header}\n${content}`;
 	}
 
-	private extractTags(content: string): string[] {
-		const tags: string[] = [];
-
-		// Extract hashtags
-		const hashtagMatches = content.match(/#[\w-]+/g);
-		if (hashtagMatches) {
-			tags.push(...hashtagMatches.map(tag => tag.substring(1)));
+	async indexNotes(files: TFile[]): Promise<number> {
+		const entries = await this.processBatch(files);
+		if (entries.length > 0) {
+			await this.vectorDb.addVectors(entries);
 		}
+		return new Set(entries.map(entry => entry.path)).size;
+	}
 
-		// Extract frontmatter tags if present
-		const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-		if (frontmatterMatch) {
-			const frontmatter = frontmatterMatch[1];
-			const tagsMatch = frontmatter.match(/tags:\s*\[(.*?)\]/);
-			if (tagsMatch) {
-				const tagList = tagsMatch[1].split(',').map(t => t.trim().replace(/['"]/g, ''));
-				tags.push(...tagList);
-			}
+	/**
+	 * Apply a batch of live changes, unless another run is in progress.
+	 * Full, incremental and retry runs wait for the batch instead of running
+	 * alongside it. Returns false when the batch did not run and should be
+	 * tried again later.
+	 */
+	async runLiveBatch(batch: () => Promise<void>): Promise<boolean> {
+		if (this.isIndexing || this.liveBatch) {
+			return false;
 		}
 
-		// Remove duplicates
-		return [...new Set(tags)];
+		const running = batch();
+		this.liveBatch = running.then(() => undefined, () => undefined).then(() => {
+			this.liveBatch = null;
+		});
+		await running;
+		return true;
+	}
+
+	private async waitForLiveBatch() {
+		while (this.liveBatch) {
+			await this.liveBatch;
+		}
 	}
 
 	async indexSingleNote(file: TFile): Promise<boolean> {
 		try {
 			const entries = await this.processBatch([file]);
 			if (entries.length > 0) {
-				await this.vectorDb.addVector(entries[0]);
+				await this.vectorDb.addVectors(entries);
 				return true;
 			}
 			return false;
@@ -239,6 +765,10 @@ export class NoteIndexer {
 		}
 	}
 
+	setProvider(provider: AIProvider) {
+		this.provider = provider;
+	}
+
 	isCurrentlyIndexing(): boolean {
 		return this.isIndexing;
 	}
@@ -0,0 +1,137 @@
+import { IdFilter, Neighbor } from './ann-index';
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+	'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of',
+	'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+	'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+	'with', 'you', 'your'
+]);
+
+const TOKEN_REGEX = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Split text into lowercase terms. Compound tokens such as ticket ids
+ * ("PROJ-123") or versions ("v2.1") are kept whole and also split into
+ * their parts, so both forms match.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	const matches = text.toLowerCase().match(TOKEN_REGEX) || [];
+
+	for (const token of matches) {
+		if (!STOPWORDS.has(token)) {
+			terms.push(token);
+		}
+
+		if (/[-_./]/.test(token)) {
+			for (const part of token.split(/[-_./]/)) {
+				if (part && !STOPWORDS.has(part)) {
+					terms.push(part);
+				}
+			}
+		}
+	}
+
+	return terms;
+}
+
+/**
+ * In-memory inverted index scored with Okapi BM25. It is rebuilt from the
+ * stored chunk content on load rather than persisted.
+ */
+export class Bm25Index {
+	private postings: Map<string, Map<string, number>> = new Map(); // Term -> doc id -> term frequency
+	private docTerms: Map<string, string[]> = new Map();             // Doc id -> distinct terms
+	private docLengths: Map<string, number> = new Map();
+	private totalLength: number = 0;
+
+	add(id: string, text: string) {
+		this.remove(id);
+
+		const terms = tokenize(text);
+		const frequencies = new Map<string, number>();
+		terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+		frequencies.forEach((frequency, term) => {
+			let docs = this.postings.get(term);
+			if (!docs) {
+				docs = new Map();
+				this.postings.set(term, docs);
+			}
+			docs.set(id, frequency);
+		});
+
+		this.docTerms.set(id, Array.from(frequencies.keys()));
+		this.docLengths.set(id, terms.length);
+		this.totalLength += terms.length;
+	}
+
+	remove(id: string) {
+		const terms = this.docTerms.get(id);
+		if (!terms) {
+			return;
+		}
+
+		for (const term of terms) {
+			const docs = this.postings.get(term);
+			if (docs) {
+				docs.delete(id);
+				if (docs.size === 0) {
+					this.postings.delete(term);
+				}
+			}
+		}
+
+		this.totalLength -= this.docLengths.get(id) || 0;
+		this.docTerms.delete(id);
+		this.docLengths.delete(id);
+	}
+
+	search(query: string, k: number, filter?: IdFilter): Neighbor[] {
+		const docCount = this.docLengths.size;
+		if (docCount === 0 || k <= 0) {
+			return [];
+		}
+
+		const averageLength = this.totalLength / docCount;
+		const scores = new Map<string, number>();
+
+		for (const term of new Set(tokenize(query))) {
+			const docs = this.postings.get(term);
+			if (!docs) {
+				continue;
+			}
+
+			const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+			docs.forEach((frequency, id) => {
+				if (filter && !filter(id)) {
+					return;
+				}
+				const length = this.docLengths.get(id) || 0;
+				const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+				scores.set(id, (scores.get(id) || 0) + idf * tf);
+			});
+		}
+
+		const results: Neighbor[] = [];
+		scores.forEach((score, id) => results.push({ id, score }));
+		results.sort((a, b) => b.score - a.score);
+		return results.slice(0, k);
+	}
+
+	size(): number {
+		return this.docLengths.size;
+	}
+
+	clear() {
+		this.postings.clear();
+		this.docTerms.clear();
+		this.docLengths.clear();
+		this.totalLength = 0;
+	}
+}
@@ -0,0 +1,645 @@
+import { App, CachedMetadata, Loc, ReferenceCache, SectionCache, TFile, getAllTags, parseFrontMatterAliases, parseLinktext, resolveSubpath } from 'obsidian';
+import type { NoteChunk } from './chunker';
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'];
+// Longest text taken from a single embedded note
+const MAX_EMBED_CHARS = 2000;
+// Embeds inside embedded notes are followed this many levels deep
+const MAX_EMBED_DEPTH = 2;
+// Shown instead of notes the exclusion rules keep out of the index
+const EXCLUDED_EMBED = '[embedded: excluded note]';
+
+export interface NoteMetadata {
+	tags: string[];       // Without '#', nested tags kept whole (area/work)
+	aliases: string[];
+	properties: { [key: string]: string }; // Selected frontmatter properties, as text
+	frontmatterLines: number;              // Lines the frontmatter block occupies
+}
+
+/**
+ * A note's text with what the metadata cache knows about it: the section
+ * each line belongs to, and where links and embeds sit on each line.
+ */
+export interface NoteStructure {
+	file: TFile;
+	lines: string[];
+	sections: Array<SectionCache | null>;   // By line
+	references: NoteReference[][];          // By line, in column order
+}
+
+interface NoteReference {
+	start: number;        // Columns on the line
+	end: number;
+	original: string;     // As written, e.g. "[[Note|Alias]]"
+	embed: boolean;
+}
+
+// A line of chunk text and where it came from in the note
+interface SourceLine {
+	text: string;
+	line: number | null;  // Null for blank lines between blocks
+	col: number;          // Column the text starts at, for parts of split lines
+}
+
+export interface PreprocessOptions {
+	inlineEmbeds: boolean; // Replace note embeds with the text they show
+	isExcluded: (file: TFile) => boolean; // Notes whose text must not be inlined
+}
+
+interface EmbedContext {
+	app: App;
+	options: PreprocessOptions;
+	seen: Set<string>;    // Notes on the current embed path, to stop cycles
+	depth: number;
+}
+
+/**
+ * Tags, aliases and the chosen frontmatter properties of a note, read from
+ * Obsidian's metadata cache so every YAML form and nested tag is understood.
+ */
+export function readNoteMetadata(app: App, file: TFile, propertyKeys: string[]): NoteMetadata {
+	const cache: CachedMetadata | null = app.metadataCache.getFileCache(file);
+	const frontmatter = cache && cache.frontmatter;
+
+	const tags = cache ? (getAllTags(cache) || []).map(tag => tag.replace(/^#/, '')) : [];
+	const aliases = parseFrontMatterAliases(frontmatter) || [];
+
+	const properties: { [key: string]: string } = {};
+	if (frontmatter) {
+		propertyKeys.forEach(key => {
+			const value = formatPropertyValue(frontmatter[key]);
+			if (value) {
+				properties[key] = value;
+			}
+		});
+	}
+
+	return {
+		tags: Array.from(new Set(tags)),
+		aliases,
+		properties,
+		frontmatterLines: cache && cache.frontmatterPosition ? cache.frontmatterPosition.end.line + 1 : 0
+	};
+}
+
+export function parsePropertyKeys(value: string): string[] {
+	return (value || '').split(',').map(key => key.trim()).filter(key => key.length > 0);
+}
+
+function formatPropertyValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatPropertyValue).filter(item => item).join(', ');
+	}
+	if (typeof value === 'object') {
+		return JSON.stringify(value);
+	}
+	// Links in properties are stored as "[[Note]]"
+	return stripWikilinks(String(value)).trim();
+}
+
+/**
+ * Read where sections, links and embeds are in a note from the metadata
+ * cache. Returns null when the cache is missing or lags behind the text,
+ * callers then fall back to preprocessMarkdown.
+ */
+export function readNoteStructure(app: App, file: TFile, content: string): NoteStructure | null {
+	const cache = app.metadataCache.getFileCache(file);
+	if (!cache || !cache.sections) {
+		return null;
+	}
+
+	const lines = content.split('\n');
+	const sections: Array<SectionCache | null> = lines.map(() => null);
+	for (const section of cache.sections) {
+		if (section.position.end.offset > content.length) {
+			return null;
+		}
+		for (let line = section.position.start.line; line <= section.position.end.line; line++) {
+			sections[line] = section;
+		}
+	}
+
+	const references: NoteReference[][] = lines.map(() => []);
+	const addReferences = (items: ReferenceCache[] | undefined, embed: boolean): boolean => (items || []).every(item => {
+		const { start, end } = item.position;
+		// A link that is not where the cache says means the cache is stale
+		if (start.line !== end.line || content.substring(start.offset, end.offset) !== item.original) {
+			return false;
+		}
+		references[start.line].push({ start: start.col, end: end.col, original: item.original, embed });
+		return true;
+	});
+	if (!addReferences(cache.links, false) || !addReferences(cache.embeds, true)) {
+		return null;
+	}
+	references.forEach(items => items.sort((a, b) => a.start - b.start));
+
+	return { file, lines, sections, references };
+}
+
+/**
+ * Turn a chunk of a note into plain text for embedding, using the cached
+ * structure: sections tell code, callouts and tables apart, and links and
+ * embeds are replaced where the cache found them. Falls back to
+ * preprocessMarkdown when there is no structure or the chunk does not match it.
+ */
+export async function preprocessChunk(app: App, file: TFile, structure: NoteStructure | null, chunk: NoteChunk, options: PreprocessOptions): Promise<string> {
+	const lines = structure ? mapChunkLines(structure, chunk) : null;
+	if (!structure || !lines) {
+		const text = options.inlineEmbeds ? await inlineEmbeds(app, chunk.text, file.path, options.isExcluded) : chunk.text;
+		return preprocessMarkdown(text);
+	}
+
+	const context: EmbedContext = { app, options, seen: new Set([file.path]), depth: 0 };
+	return cleanMarkup(stripInlineCode(stripComments(await convertLines(context, structure, lines))));
+}
+
+/**
+ * Turn a chunk of markdown into plain text for embedding: links become their
+ * display text, callouts and tables become sentences, and markup that only
+ * affects rendering is dropped. Works on the text alone, for content the
+ * metadata cache does not describe.
+ */
+export function preprocessMarkdown(content: string): string {
+	content = stripComments(content);
+
+	// Remove code blocks (preserve the fact that there was code)
+	content = content.replace(/```[\s\S]*?```/g, '[code block]');
+	content = stripInlineCode(content);
+
+	// Embeds before links, they share the link syntax
+	content = content.replace(/!\[\[([^\]]+)\]\]/g, (match: string, inner: string) => describeEmbed(inner));
+	content = stripWikilinks(content);
+
+	content = convertCallouts(content);
+	content = convertTables(content);
+	return cleanMarkup(content);
+}
+
+// Comments are not part of the rendered note
+function stripComments(content: string): string {
+	return content.replace(/%%[\s\S]*?%%/g, '').replace(/<!--[\s\S]*?-->/g, '');
+}
+
+function stripInlineCode(content: string): string {
+	return content.replace(/`[^`\n]+`/g, '[inline code]');
+}
+
+/**
+ * Drop the markup left after links, code, callouts and tables are handled.
+ */
+function cleanMarkup(content: string): string {
+	// Images and links to web pages, the cache only knows vault links
+	content = content.replace(/!\[([^\]]*)\]\([^)]+\)/g, '[image: $1]');
+	content = content.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+
+	// Remove excessive markdown formatting
+	content = content.replace(/^#+\s+/gm, ''); // Remove headers
+	content = content.replace(/\s\^[\w-]+$/gm, ''); // Remove block ids
+	content = content.replace(/==([^=\n]+)==/g, '$1'); // Remove highlights
+	content = content.replace(/\*\*([^*\n]+)\*\*/g, '$1'); // Remove bold
+	content = content.replace(/\*([^*\n]+)\*/g, '$1'); // Remove italic
+	content = content.replace(/(^|\W)__([^_\n]+)__(?=\W|$)/g, '$1$2'); // Remove bold, not snake_case
+	content = content.replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1$2'); // Remove italic
+
+	// Clean up whitespace
+	content = content.replace(/\n{3,}/g, '\n\n'); // Max 2 newlines
+	return content.trim();
+}
+
+/**
+ * Find the note line of every line of a chunk. The chunker keeps lines in
+ * order and only trims them or splits long ones, so each is part of a line
+ * at or after the previous one. Null if a line cannot be found.
+ */
+function mapChunkLines(structure: NoteStructure, chunk: NoteChunk): SourceLine[] | null {
+	const mapped: SourceLine[] = [];
+	let line = chunk.startLine;
+	let from = 0;
+
+	for (const text of chunk.text.split('\n')) {
+		if (!text.trim()) {
+			mapped.push({ text, line: null, col: 0 });
+			continue;
+		}
+
+		let col = -1;
+		while (line <= chunk.endLine && line < structure.lines.length) {
+			col = structure.lines[line].indexOf(text, from);
+			if (col !== -1) {
+				break;
+			}
+			line++;
+			from = 0;
+		}
+		if (col === -1) {
+			return null;
+		}
+
+		mapped.push({ text, line, col });
+		from = col + text.length;
+	}
+
+	return mapped;
+}
+
+async function convertLines(context: EmbedContext, structure: NoteStructure, lines: SourceLine[]): Promise<string> {
+	const output: string[] = [];
+	let codeSection: SectionCache | null = null;
+
+	for (const source of lines) {
+		if (source.line === null) {
+			output.push(source.text);
+			continue;
+		}
+
+		const section = structure.sections[source.line];
+		const type = section ? section.type : '';
+		const firstLine = !!section && source.line === section.position.start.line && source.col === 0;
+
+		if (type === 'code') {
+			// Remove code blocks (preserve the fact that there was code)
+			if (section !== codeSection) {
+				output.push('[code block]');
+			}
+			codeSection = section;
+			continue;
+		}
+		if (type === 'comment') {
+			continue;
+		}
+
+		if (type === 'table' && section) {
+			const row = tableRow(context, structure, section, source);
+			if (row) {
+				output.push(row);
+			}
+			continue;
+		}
+
+		let text = await replaceReferences(context, structure, source, context.options.inlineEmbeds);
+		if ((type === 'callout' || type === 'blockquote') && source.col === 0) {
+			text = type === 'callout' && firstLine ? convertCallouts(text) : text.replace(/^(>\s?)+/, '');
+		} else if (type === 'heading' && firstLine) {
+			text = text.replace(/^#+\s+/, '');
+		}
+		output.push(text);
+	}
+
+	return output.join('\n');
+}
+
+/**
+ * A table row as "Header: cell" pairs, taking the headers from the table's
+ * first line even when it is in an earlier chunk. Embeds in tables are
+ * described, not inlined, so their text cannot break up the cells.
+ */
+function tableRow(context: EmbedContext, structure: NoteStructure, section: SectionCache, source: SourceLine): string {
+	const headerLine = section.position.start.line;
+	if (source.line === headerLine || source.line === headerLine + 1) {
+		// The header and delimiter rows
+		return '';
+	}
+
+	const describe = (line: SourceLine) => replaceReferencesSync(structure, line, () => null);
+	const headers = splitRow(describe({ text: structure.lines[headerLine], line: headerLine, col: 0 }));
+	return formatTableRow(headers, splitRow(describe(source)));
+}
+
+/**
+ * Replace the links and embeds on a line with their display text, or with
+ * the text of the embedded note when inlining.
+ */
+async function replaceReferences(context: EmbedContext, structure: NoteStructure, source: SourceLine, inline: boolean): Promise<string> {
+	const inlined = new Map<NoteReference, string>();
+	if (inline) {
+		for (const reference of lineReferences(structure, source)) {
+			if (reference.embed) {
+				const text = await readEmbedText(context, reference, structure.file.path);
+				if (text !== null) {
+					inlined.set(reference, text);
+				}
+			}
+		}
+	}
+
+	return replaceReferencesSync(structure, source, reference => inlined.has(reference) ? inlined.get(reference)! : null);
+}
+
+function replaceReferencesSync(structure: NoteStructure, source: SourceLine, inlined: (reference: NoteReference) => string | null): string {
+	let text = source.text;
+	// From the end, so earlier columns stay valid
+	lineReferences(structure, source).reverse().forEach(reference => {
+		const replacement = inlined(reference);
+		text = text.substring(0, reference.start - source.col)
+			+ (replacement !== null ? replacement : describeReference(reference))
+			+ text.substring(reference.end - source.col);
+	});
+	return text;
+}
+
+// References that lie wholly inside the text of a line
+function lineReferences(structure: NoteStructure, source: SourceLine): NoteReference[] {
+	if (source.line === null) {
+		return [];
+	}
+	return structure.references[source.line].filter(reference =>
+		reference.start >= source.col && reference.end <= source.col + source.text.length);
+}
+
+function describeReference(reference: NoteReference): string {
+	const original = reference.original;
+	if (original.startsWith('![[') && original.endsWith(']]')) {
+		return describeEmbed(original.substring(3, original.length - 2));
+	}
+	if (original.startsWith('[[')) {
+		return stripWikilinks(original);
+	}
+	// Markdown links and embeds to vault files
+	return original
+		.replace(/^!\[([^\]]*)\]\([^)]+\)$/, '[image: $1]')
+		.replace(/^\[([^\]]*)\]\([^)]+\)$/, '$1');
+}
+
+/**
+ * Replace ![[Note]] and ![[Note#Heading]] transclusions with the text they
+ * show, so a note assembled from embeds is indexed with what the reader sees.
+ * Embedded images and other files are left for preprocessMarkdown, and
+ * excluded notes are replaced with a placeholder.
+ */
+export async function inlineEmbeds(
+	app: App,
+	content: string,
+	sourcePath: string,
+	isExcluded: (file: TFile) => boolean,
+	seen: Set<string> = new Set([sourcePath]),
+	depth: number = 0
+): Promise<string> {
+	const pattern = /!\[\[([^\]]+)\]\]/g;
+	const parts: string[] = [];
+	let last = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(content)) !== null) {
+		const embedded = await readEmbed(app, match[1], sourcePath, isExcluded, seen, depth);
+		parts.push(content.substring(last, match.index), embedded !== null ? embedded : match[0]);
+		last = match.index + match[0].length;
+	}
+	parts.push(content.substring(last));
+
+	return parts.join('');
+}
+
+async function readEmbed(app: App, inner: string, sourcePath: string, isExcluded: (file: TFile) => boolean, seen: Set<string>, depth: number): Promise<string | null> {
+	const target = await resolveEmbed(app, inner, sourcePath, isExcluded, seen);
+	if (target === null || typeof target === 'string') {
+		return target;
+	}
+
+	let text = target.content.substring(target.start.offset, target.end ? target.end.offset : undefined);
+	if (depth + 1 < MAX_EMBED_DEPTH) {
+		seen.add(target.file.path);
+		text = await inlineEmbeds(app, text, target.file.path, isExcluded, seen, depth + 1);
+		seen.delete(target.file.path);
+	}
+
+	return limitEmbed(text);
+}
+
+/**
+ * The text an embed shows, preprocessed with the embedded note's own cached
+ * structure. Null for embeds that are not of notes.
+ */
+async function readEmbedText(context: EmbedContext, reference: NoteReference, sourcePath: string): Promise<string | null> {
+	const original = reference.original;
+	if (!original.startsWith('![[') || !original.endsWith(']]')) {
+		return null;
+	}
+
+	const isExcluded = context.options.isExcluded;
+	const target = await resolveEmbed(context.app, original.substring(3, original.length - 2), sourcePath, isExcluded, context.seen);
+	if (target === null || typeof target === 'string') {
+		return target;
+	}
+
+	const nested = context.depth + 1 < MAX_EMBED_DEPTH;
+	const structure = readNoteStructure(context.app, target.file, target.content);
+	context.seen.add(target.file.path);
+	try {
+		if (!structure) {
+			let text = target.content.substring(target.start.offset, target.end ? target.end.offset : undefined);
+			if (nested) {
+				text = await inlineEmbeds(context.app, text, target.file.path, isExcluded, context.seen, context.depth + 1);
+			}
+			return limitEmbed(preprocessMarkdown(text));
+		}
+
+		const lines = rangeLines(structure, target.start, target.end);
+		return limitEmbed(await convertLines({
+			...context,
+			options: { ...context.options, inlineEmbeds: context.options.inlineEmbeds && nested },
+			depth: context.depth + 1
+		}, structure, lines));
+	} finally {
+		context.seen.delete(target.file.path);
+	}
+}
+
+// The part of a note an embed shows
+interface EmbedTarget {
+	file: TFile;
+	content: string;
+	start: Loc;
+	end: Loc | null;      // To the end of the note when null
+}
+
+/**
+ * Find and read the part of a note an embed shows. Excluded notes are not
+ * read, they resolve to a placeholder.
+ */
+async function resolveEmbed(
+	app: App,
+	inner: string,
+	sourcePath: string,
+	isExcluded: (file: TFile) => boolean,
+	seen: Set<string>
+): Promise<EmbedTarget | string | null> {
+	const { path, subpath } = parseLinktext(splitLink(inner)[0]);
+	const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+	if (!file || file.extension !== 'md' || seen.has(file.path)) {
+		return null;
+	}
+	if (isExcluded(file)) {
+		return EXCLUDED_EMBED;
+	}
+
+	const content = await app.vault.cachedRead(file);
+	const cache = app.metadataCache.getFileCache(file);
+	if (subpath) {
+		const section = cache ? resolveSubpath(cache, subpath) : null;
+		return section ? { file, content, start: section.start, end: section.end } : null;
+	}
+
+	const start = cache && cache.frontmatterPosition ? cache.frontmatterPosition.end : { line: 0, col: 0, offset: 0 };
+	return { file, content, start, end: null };
+}
+
+/**
+ * Notes that show this one through embeds, directly or through another
+ * embedded note, as deep as embeds are inlined. Their indexed text changes
+ * along with this note's.
+ */
+export function findEmbeddingNotes(app: App, file: TFile): TFile[] {
+	const resolvedLinks = app.metadataCache.resolvedLinks;
+	const found = new Map<string, TFile>();
+	let targets = [file.path];
+
+	for (let depth = 0; depth < MAX_EMBED_DEPTH && targets.length > 0; depth++) {
+		const next: string[] = [];
+		Object.keys(resolvedLinks).forEach(sourcePath => {
+			const links = resolvedLinks[sourcePath];
+			if (sourcePath === file.path || found.has(sourcePath) || !targets.some(target => links[target])) {
+				return;
+			}
+
+			// resolvedLinks counts links and embeds alike
+			const source = app.vault.getAbstractFileByPath(sourcePath);
+			const cache = source instanceof TFile ? app.metadataCache.getFileCache(source) : null;
+			const embedsTarget = !!cache && (cache.embeds || []).some(embed => {
+				const destination = app.metadataCache.getFirstLinkpathDest(parseLinktext(embed.link).path, sourcePath);
+				return !!destination && targets.indexOf(destination.path) !== -1;
+			});
+			if (embedsTarget) {
+				found.set(sourcePath, source as TFile);
+				next.push(sourcePath);
+			}
+		});
+		targets = next;
+	}
+
+	return Array.from(found.values());
+}
+
+function rangeLines(structure: NoteStructure, start: Loc, end: Loc | null): SourceLine[] {
+	const lines: SourceLine[] = [];
+	const last = end ? Math.min(end.line, structure.lines.length - 1) : structure.lines.length - 1;
+
+	for (let line = start.line; line <= last; line++) {
+		const from = line === start.line ? start.col : 0;
+		const to = end && line === end.line ? end.col : structure.lines[line].length;
+		const text = structure.lines[line].substring(from, to);
+		lines.push({ text, line: text.trim() ? line : null, col: from });
+	}
+
+	return lines;
+}
+
+function limitEmbed(text: string): string {
+	text = text.trim();
+	return text.length > MAX_EMBED_CHARS ? `${text.substring(0, MAX_EMBED_CHARS)}…` : text;
+}
+
+/**
+ * [[Note#Heading|Alias]] becomes "Alias", [[Note#Heading]] "Note > Heading".
+ */
+function stripWikilinks(text: string): string {
+	return text.replace(/\[\[([^\]]+)\]\]/g, (match: string, inner: string) => {
+		const [target, alias] = splitLink(inner);
+		if (alias) {
+			return alias;
+		}
+		const [note, ...subpath] = target.split('#');
+		const name = note.split('/').pop() || note;
+		const heading = subpath.filter(part => part && !part.startsWith('^')).join(' > ');
+		return heading ? (name ? `${name} > ${heading}` : heading) : name;
+	});
+}
+
+function describeEmbed(inner: string): string {
+	const [target, alias] = splitLink(inner);
+	const name = target.split('#')[0];
+	const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : 'md';
+	const label = alias && !/^\d+(x\d+)?$/.test(alias) ? alias : name.split('/').pop();
+	return IMAGE_EXTENSIONS.indexOf(extension) !== -1 ? `[image: ${label}]` : `[embedded: ${label}]`;
+}
+
+function splitLink(inner: string): [string, string] {
+	// Inside tables the alias pipe is escaped
+	inner = inner.replace(/\\\|/g, '|');
+	const pipe = inner.indexOf('|');
+	return pipe === -1
+		? [inner.trim(), '']
+		: [inner.substring(0, pipe).trim(), inner.substring(pipe + 1).trim()];
+}
+
+/**
+ * "> [!warning] Title" callouts become "Warning: Title", and the quote
+ * markers of callout and blockquote lines are removed.
+ */
+function convertCallouts(content: string): string {
+	return content
+		.replace(/^>\s*\[!(\w+)\][+-]?[ \t]*(.*)$/gm, (match: string, type: string, title: string) => {
+			const label = type.charAt(0).toUpperCase() + type.substring(1).toLowerCase();
+			return title ? `${label}: ${title}` : `${label}:`;
+		})
+		.replace(/^(>\s?)+/gm, '');
+}
+
+/**
+ * Markdown tables become one line per row, pairing each cell with its column
+ * header ("Name: Alice; Role: Editor"), which embeds far better than pipes.
+ */
+function convertTables(content: string): string {
+	const lines = content.split('\n');
+	const output: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		if (!isTableRow(lines[i])) {
+			output.push(lines[i]);
+			continue;
+		}
+
+		// Collect the whole table
+		const rows: string[][] = [];
+		while (i < lines.length && isTableRow(lines[i])) {
+			rows.push(splitRow(lines[i]));
+			i++;
+		}
+		i--;
+
+		const hasHeader = rows.length >= 2 && rows[1].every(cell => /^:?-+:?$/.test(cell));
+		if (!hasHeader) {
+			// Part of a table split between chunks, keep the cells
+			rows.forEach(row => output.push(row.filter(cell => cell).join(', ')));
+			continue;
+		}
+
+		rows.slice(2).forEach(row => {
+			const text = formatTableRow(rows[0], row);
+			if (text) {
+				output.push(text);
+			}
+		});
+	}
+
+	return output.join('\n');
+}
+
+function formatTableRow(headers: string[], row: string[]): string {
+	return row
+		.map((cell, column) => (cell ? (headers[column] ? `${headers[column]}: ${cell}` : cell) : ''))
+		.filter(cell => cell)
+		.join('; ');
+}
+
+function isTableRow(line: string): boolean {
+	const trimmed = line.trim();
+	return trimmed.startsWith('|') && trimmed.length > 1 && trimmed.indexOf('|', 1) !== -1;
+}
+
+function splitRow(line: string): string[] {
+	return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
@@ -0,0 +1,159 @@
+import { AIProvider, ChatMessage, EmbeddingDocument, MAX_EMBEDDING_CHARS, buildSystemPrompt, embedNonEmpty, joinUrl, postJson, streamChatLines } from './provider';
+
+/**
+ * Provider for a local Ollama server. Nothing leaves the machine.
+ */
+export class OllamaService implements AIProvider {
+	readonly id = 'ollama';
+	readonly name = 'Ollama';
+	private settings: any;
+
+	constructor(settings: any) {
+		this.settings = settings;
+	}
+
+	updateSettings(settings: any) {
+		this.settings = settings;
+	}
+
+	getEmbeddingModelId(): string {
+		return `ollama:${this.settings.ollamaEmbeddingModel}`;
+	}
+
+	getEmbeddingScheme(): string {
+		// The same embedding for notes and questions
+		return 'symmetric';
+	}
+
+	getChatModelId(): string {
+		return `ollama:${this.settings.ollamaChatModel}`;
+	}
+
+	isConfigured(): boolean {
+		return !!this.settings.ollamaBaseUrl && !!this.settings.ollamaEmbeddingModel && !!this.settings.ollamaChatModel;
+	}
+
+	async embedQuery(text: string): Promise<number[]> {
+		const cleanText = text.trim().substring(0, MAX_EMBEDDING_CHARS);
+		if (!cleanText) {
+			return [];
+		}
+
+		try {
+			const [embedding] = await this.embed([cleanText]);
+			return embedding;
+		} catch (error) {
+			console.error('Error generating embedding:', error);
+			throw new Error(`Failed to generate embedding: ${error.message}`);
+		}
+	}
+
+	async embedDocuments(documents: EmbeddingDocument[]): Promise<number[][]> {
+		const texts = documents.map(document => document.text);
+		const embeddings: number[][] = [];
+
+		// Local models are slower per request, keep batches small
+		const batchSize = 8;
+		for (let i = 0; i < texts.length; i += batchSize) {
+			const batch = texts.slice(i, i + batchSize).map(text => text.trim().substring(0, MAX_EMBEDDING_CHARS));
+
+			try {
+				embeddings.push(...await embedNonEmpty(batch, inputs => this.embed(inputs)));
+			} catch (error) {
+				console.error(`Error in batch ${i / batchSize}:`, error);
+				// Add empty embeddings for failed items
+				embeddings.push(...batch.map(() => []));
+			}
+		}
+
+		return embeddings;
+	}
+
+	async chat(messages: ChatMessage[], context: string[]): Promise<string> {
+		try {
+			const response = await postJson(
+				joinUrl(this.settings.ollamaBaseUrl, 'api/chat'),
+				this.buildChatRequest(messages, context, false)
+			);
+
+			if (!response.message) {
+				throw new Error('Empty response');
+			}
+			return response.message.content || '';
+		} catch (error) {
+			console.error('Chat error:', error);
+			throw new Error(`Chat failed: ${error.message}`);
+		}
+	}
+
+	async streamChat(messages: ChatMessage[], context: string[], onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+		// One JSON object per line, the last one has done: true. Ollama rejects
+		// the app origin unless OLLAMA_ORIGINS allows it, then it answers in one piece.
+		return streamChatLines(
+			joinUrl(this.settings.ollamaBaseUrl, 'api/chat'),
+			this.buildChatRequest(messages, context, true),
+			{},
+			line => {
+				const chunk = JSON.parse(line);
+				if (chunk.error) {
+					throw new Error(chunk.error);
+				}
+				return chunk.message ? chunk.message.content || '' : '';
+			},
+			() => this.chat(messages, context),
+			onToken,
+			signal
+		);
+	}
+
+	async complete(prompt: string): Promise<string> {
+		try {
+			const response = await postJson(joinUrl(this.settings.ollamaBaseUrl, 'api/chat'), {
+				model: this.settings.ollamaChatModel,
+				messages: [{ role: 'user', content: prompt }],
+				stream: false,
+				options: { temperature: 0 }
+			});
+			return response.message ? response.message.content || '' : '';
+		} catch (error) {
+			console.error('Completion error:', error);
+			throw new Error(`Completion failed: ${error.message}`);
+		}
+	}
+
+	async testConnection(): Promise<boolean> {
+		try {
+			const test = await this.embedQuery('test');
+			return test && test.length > 0;
+		} catch (error) {
+			console.error('Connection test failed:', error);
+			return false;
+		}
+	}
+
+	private buildChatRequest(messages: ChatMessage[], context: string[], stream: boolean) {
+		const formatted = messages.map(msg => ({ role: msg.role, content: msg.content }));
+		if (context.length > 0) {
+			formatted.unshift({ role: 'system', content: buildSystemPrompt(context) });
+		}
+
+		return {
+			model: this.settings.ollamaChatModel,
+			messages: formatted,
+			stream,
+			options: {
+				temperature: this.settings.temperature ?? 0.7
+			}
+		};
+	}
+
+	private async embed(inputs: string[]): Promise<number[][]> {
+		const response = await postJson(joinUrl(this.settings.ollamaBaseUrl, 'api/embed'), {
+			model: this.settings.ollamaEmbeddingModel,
+			input: inputs
+		});
+
+		const embeddings: number[][] = response.embeddings || [];
+		return inputs.map((_, i) => embeddings[i] || []);
+	}
+}
@@ -0,0 +1,177 @@
+import { AIProvider, ChatMessage, EmbeddingDocument, MAX_EMBEDDING_CHARS, buildSystemPrompt, embedNonEmpty, joinUrl, postJson, streamChatLines } from './provider';
+
+/**
+ * Provider for the OpenAI API and compatible gateways (Azure proxies,
+ * LiteLLM, vLLM, LM Studio, ...) speaking /embeddings and /chat/completions.
+ */
+export class OpenAIService implements AIProvider {
+	readonly id = 'openai';
+	readonly name = 'OpenAI-compatible';
+	private settings: any;
+
+	constructor(settings: any) {
+		this.settings = settings;
+	}
+
+	updateSettings(settings: any) {
+		this.settings = settings;
+	}
+
+	getEmbeddingModelId(): string {
+		return `openai:${this.settings.openaiEmbeddingModel}`;
+	}
+
+	getEmbeddingScheme(): string {
+		// The same embedding for notes and questions
+		return 'symmetric';
+	}
+
+	getChatModelId(): string {
+		return `openai:${this.settings.openaiChatModel}`;
+	}
+
+	isConfigured(): boolean {
+		// Self-hosted gateways often need no key, only an address
+		return !!this.settings.openaiBaseUrl && !!this.settings.openaiEmbeddingModel && !!this.settings.openaiChatModel;
+	}
+
+	async embedQuery(text: string): Promise<number[]> {
+		const cleanText = text.trim().substring(0, MAX_EMBEDDING_CHARS);
+		if (!cleanText) {
+			return [];
+		}
+
+		try {
+			const [embedding] = await this.embed([cleanText]);
+			return embedding;
+		} catch (error) {
+			console.error('Error generating embedding:', error);
+			throw new Error(`Failed to generate embedding: ${error.message}`);
+		}
+	}
+
+	async embedDocuments(documents: EmbeddingDocument[]): Promise<number[][]> {
+		const texts = documents.map(document => document.text);
+		const embeddings: number[][] = [];
+
+		// The embeddings endpoint takes many inputs per request
+		const batchSize = 32;
+		for (let i = 0; i < texts.length; i += batchSize) {
+			const batch = texts.slice(i, i + batchSize).map(text => text.trim().substring(0, MAX_EMBEDDING_CHARS));
+
+			try {
+				embeddings.push(...await embedNonEmpty(batch, inputs => this.embed(inputs)));
+			} catch (error) {
+				console.error(`Error in batch ${i / batchSize}:`, error);
+				// Add empty embeddings for failed items
+				embeddings.push(...batch.map(() => []));
+			}
+		}
+
+		return embeddings;
+	}
+
+	async chat(messages: ChatMessage[], context: string[]): Promise<string> {
+		try {
+			const response = await postJson(
+				joinUrl(this.settings.openaiBaseUrl, 'chat/completions'),
+				this.buildChatRequest(messages, context, false),
+				this.getHeaders()
+			);
+
+			const choice = response.choices && response.choices[0];
+			if (!choice || !choice.message) {
+				throw new Error('Empty response');
+			}
+			return choice.message.content || '';
+		} catch (error) {
+			console.error('Chat error:', error);
+			throw new Error(`Chat failed: ${error.message}`);
+		}
+	}
+
+	async streamChat(messages: ChatMessage[], context: string[], onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+		// Server-sent events: "data: {json}" lines, ending with "data: [DONE]".
+		// Gateways that do not allow streaming from the app answer in one piece.
+		return streamChatLines(
+			joinUrl(this.settings.openaiBaseUrl, 'chat/completions'),
+			this.buildChatRequest(messages, context, true),
+			this.getHeaders(),
+			line => {
+				if (!line.startsWith('data:')) {
+					return '';
+				}
+				const data = line.substring(5).trim();
+				if (data === '[DONE]') {
+					return '';
+				}
+				const chunk = JSON.parse(data);
+				const choice = chunk.choices && chunk.choices[0];
+				return choice && choice.delta ? choice.delta.content || '' : '';
+			},
+			() => this.chat(messages, context),
+			onToken,
+			signal
+		);
+	}
+
+	async complete(prompt: string): Promise<string> {
+		try {
+			const response = await postJson(joinUrl(this.settings.openaiBaseUrl, 'chat/completions'), {
+				model: this.settings.openaiChatModel,
+				messages: [{ role: 'user', content: prompt }],
+				temperature: 0
+			}, this.getHeaders());
+
+			const choice = response.choices && response.choices[0];
+			return choice && choice.message ? choice.message.content || '' : '';
+		} catch (error) {
+			console.error('Completion error:', error);
+			throw new Error(`Completion failed: ${error.message}`);
+		}
+	}
+
+	async testConnection(): Promise<boolean> {
+		try {
+			const test = await this.embedQuery('test');
+			return test && test.length > 0;
+		} catch (error) {
+			console.error('Connection test failed:', error);
+			return false;
+		}
+	}
+
+	private async embed(inputs: string[]): Promise<number[][]> {
+		const response = await postJson(joinUrl(this.settings.openaiBaseUrl, 'embeddings'), {
+			model: this.settings.openaiEmbeddingModel,
+			input: inputs
+		}, this.getHeaders());
+
+		// Results carry their input index and are not guaranteed to be in order
+		const embeddings: number[][] = inputs.map(() => []);
+		(response.data || []).forEach((item: { index: number, embedding: number[] }, i: number) => {
+			embeddings[item.index ?? i] = item.embedding || [];
+		});
+		return embeddings;
+	}
+
+	private buildChatRequest(messages: ChatMessage[], context: string[], stream: boolean) {
+		const formatted = messages.map(msg => ({ role: msg.role, content: msg.content }));
+		if (context.length > 0) {
+			formatted.unshift({ role: 'system', content: buildSystemPrompt(context) });
+		}
+
+		return {
+			model: this.settings.openaiChatModel,
+			messages: formatted,
+			temperature: this.settings.temperature ?? 0.7,
+			stream
+		};
+	}
+
+	private getHeaders(): { [name: string]: string } {
+		return this.settings.openaiApiKey
+			? { Authorization: `Bearer ${this.settings.openaiApiKey}` }
+			: {};
+	}
+}
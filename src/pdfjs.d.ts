@@ -0,0 +1,2 @@
+// Sets globalThis.pdfjsWorker, so pdf.js parses without a separate worker
+declare module 'pdfjs-dist/legacy/build/pdf.worker.entry';
@@ -0,0 +1,231 @@
+import { requestUrl } from 'obsidian';
+import type { FileType } from './extractors';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama';
+
+// A note an answer was grounded on, stored with the message so its
+// [Note N] citations still resolve after the chat history is reloaded
+export interface MessageSource {
+	path: string;
+	title: string;
+	similarity: number;
+	headings?: string[];
+	fileType?: FileType;  // Markdown when missing
+	page?: number;        // Page of the best matching chunk, for PDFs
+	startLine?: number;   // Best matching chunk, used to scroll the note
+	endLine?: number;
+}
+
+export interface ChatMessage {
+	role: 'user' | 'assistant' | 'system';
+	content: string;
+	context?: string[];
+	sources?: MessageSource[]; // Sources in [Note N] order
+}
+
+export interface EmbeddingDocument {
+	text: string;
+	title?: string;       // Note title, for models that take one
+}
+
+/**
+ * An embedding and chat backend. Every provider must embed notes and
+ * questions with the same model, so switching providers means re-indexing.
+ */
+export interface AIProvider {
+	readonly id: ProviderId;
+	readonly name: string;
+
+	// Identifies the embedding model in stored vectors, so a change triggers re-indexing
+	getEmbeddingModelId(): string;
+	// How notes and questions are embedded (e.g. with retrieval task types),
+	// stored alongside the model id for the same reason
+	getEmbeddingScheme(): string;
+	getChatModelId(): string;
+	isConfigured(): boolean;
+	updateSettings(settings: any): void;
+
+	// Questions and search queries
+	embedQuery(text: string): Promise<number[]>;
+	// Indexed note chunks. Failed items come back as empty arrays so the rest of a batch is kept
+	embedDocuments(documents: EmbeddingDocument[]): Promise<number[][]>;
+	chat(messages: ChatMessage[], context: string[]): Promise<string>;
+	// Streams the answer through onToken and resolves with the full text.
+	// When the signal aborts, resolves with the text received so far.
+	streamChat(messages: ChatMessage[], context: string[], onToken: (token: string) => void, signal?: AbortSignal): Promise<string>;
+	// One-off prompt without notes or history, at temperature 0, for helper tasks
+	complete(prompt: string): Promise<string>;
+	testConnection(): Promise<boolean>;
+}
+
+export const PROVIDER_NAMES: { [id: string]: string } = {
+	gemini: 'Google Gemini',
+	openai: 'OpenAI-compatible',
+	ollama: 'Ollama (local)'
+};
+
+// Longest text sent for a single embedding
+export const MAX_EMBEDDING_CHARS = 10000;
+
+/**
+ * Embed a batch of texts, leaving out empty ones: they are not sent and
+ * keep an empty embedding, like texts that failed.
+ */
+export async function embedNonEmpty(texts: string[], embed: (texts: string[]) => Promise<number[][]>): Promise<number[][]> {
+	const inputs = texts.filter(text => !!text);
+	if (inputs.length === 0) {
+		return texts.map(() => []);
+	}
+
+	const values = await embed(inputs);
+	let next = 0;
+	return texts.map(text => text ? values[next++] || [] : []);
+}
+
+export function buildSystemPrompt(context: string[]): string {
+	return `You are a helpful assistant that answers questions about the user's Obsidian notes.
+Use the following relevant note excerpts to answer the user's question.
+Always cite which notes you're referencing when providing information. If you are not using notes then say that you are not.
+
+Relevant notes context:
+${context.map((note, i) => `[Note ${i + 1}]: ${note}`).join('\n\n')}
+
+Now answer the user's question based on the above context.`;
+}
+
+/**
+ * POST a JSON body and return the parsed response. Uses Obsidian's
+ * requestUrl, which is not subject to CORS, so local servers work too.
+ */
+export async function postJson(url: string, body: any, headers: { [name: string]: string } = {}): Promise<any> {
+	const response = await requestUrl({
+		url,
+		method: 'POST',
+		contentType: 'application/json',
+		headers,
+		body: JSON.stringify(body),
+		throw: false
+	});
+
+	if (response.status >= 400) {
+		throw new Error(`HTTP ${response.status}: ${describeError(response.text)}`);
+	}
+
+	return response.json;
+}
+
+/**
+ * POST a JSON body and pass each line of the streamed response to onLine.
+ * Uses fetch, since requestUrl cannot stream, so the server must allow CORS.
+ */
+export async function streamLines(
+	url: string,
+	body: any,
+	headers: { [name: string]: string },
+	onLine: (line: string) => void,
+	signal?: AbortSignal
+): Promise<void> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify(body),
+		signal
+	});
+
+	if (!response.ok || !response.body) {
+		throw new Error(`HTTP ${response.status}: ${describeError(await response.text())}`);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split('\n');
+		buffer = lines.pop() || '';
+		lines.forEach(line => {
+			if (line.trim()) {
+				onLine(line.trim());
+			}
+		});
+	}
+
+	if (buffer.trim()) {
+		onLine(buffer.trim());
+	}
+}
+
+/**
+ * Stream a chat answer from a server that sends one event per line. parseLine
+ * returns the token a line carries, if any, and may throw errors sent inside
+ * the stream. Stopping keeps what arrived so far; a stream blocked before the
+ * first token is answered in one piece by fallback.
+ */
+export async function streamChatLines(
+	url: string,
+	body: any,
+	headers: { [name: string]: string },
+	parseLine: (line: string) => string,
+	fallback: () => Promise<string>,
+	onToken: (token: string) => void,
+	signal?: AbortSignal
+): Promise<string> {
+	let text = '';
+
+	try {
+		await streamLines(url, body, headers, line => {
+			const token = parseLine(line);
+			if (token) {
+				text += token;
+				onToken(token);
+			}
+		}, signal);
+		return text;
+
+	} catch (error) {
+		if (signal && signal.aborted) {
+			return text;
+		}
+		if (!text && isNetworkError(error)) {
+			const answer = await fallback();
+			onToken(answer);
+			return answer;
+		}
+		console.error('Chat error:', error);
+		throw new Error(`Chat failed: ${error.message}`);
+	}
+}
+
+/**
+ * fetch rejects with a TypeError before any response when the request is
+ * blocked, usually by CORS. Callers then fall back to a non-streamed request.
+ */
+export function isNetworkError(error: any): boolean {
+	return error instanceof TypeError;
+}
+
+export function joinUrl(baseUrl: string, path: string): string {
+	return `${(baseUrl || '').trim().replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+function describeError(text: string): string {
+	try {
+		const body = JSON.parse(text);
+		const error = body.error;
+		if (typeof error === 'string') {
+			return error;
+		}
+		if (error && error.message) {
+			return error.message;
+		}
+	} catch (e) {
+		// Not JSON, fall through to the raw text
+	}
+	return (text || '').substring(0, 200);
+}
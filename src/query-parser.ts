@@ -0,0 +1,146 @@
+import { SearchFilter, isEmptyFilter } from './vector-db';
+
+export interface ParsedQuery {
+	text: string;               // The question with all filter tokens removed
+	filter: SearchFilter | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// [+-]key:value where value may be "quoted with spaces"
+const FILTER_REGEX = /(^|\s)([+-]?)(tag|folder|path|since|until|prop):(?:"([^"]*)"|(\S+))/gi;
+const TRAILING_PUNCTUATION = /[?!.,;:)\]]+$/;
+
+/**
+ * Pull inline search filters out of a chat question:
+ *
+ *   tag:#alpha      note has this tag (several tag: tokens match any of them)
+ *   +tag:#alpha     note must have this tag
+ *   -tag:#alpha     note must not have this tag
+ *   folder:Work/    note is under this folder (path: is an alias)
+ *   -folder:Archive note is not under this folder
+ *   since:2026-09-01 / until:2026-09-30, or relative since:30d (d, w, m, y)
+ *   prop:status=done  frontmatter property matches
+ *
+ * A '-' on since:, until: or prop: has no meaning, so such tokens stay in
+ * the question text. Trailing punctuation of unquoted values is ignored.
+ */
+export function parseQuery(input: string): ParsedQuery {
+	const filter: SearchFilter = {};
+
+	const text = input.replace(FILTER_REGEX, (match, lead: string, modifier: string, rawKey: string, quoted?: string, bare?: string) => {
+		const key = rawKey.toLowerCase();
+		// "tag:#alpha?" ends a sentence, the punctuation is not part of the tag
+		const value = (quoted !== undefined ? quoted : (bare || '').replace(TRAILING_PUNCTUATION, '')).trim();
+		if (!value) {
+			return match;
+		}
+		if (modifier === '-' && key !== 'tag' && key !== 'folder' && key !== 'path') {
+			return match;
+		}
+
+		switch (key) {
+			case 'tag': {
+				const tag = value.replace(/^#/, '');
+				if (modifier === '+') {
+					(filter.tagsAll = filter.tagsAll || []).push(tag);
+				} else if (modifier === '-') {
+					(filter.tagsNone = filter.tagsNone || []).push(tag);
+				} else {
+					(filter.tagsAny = filter.tagsAny || []).push(tag);
+				}
+				break;
+			}
+			case 'folder':
+			case 'path':
+				if (modifier === '-') {
+					(filter.excludePaths = filter.excludePaths || []).push(value);
+				} else {
+					(filter.includePaths = filter.includePaths || []).push(value);
+				}
+				break;
+			case 'since': {
+				const date = parseDate(value, false);
+				if (date === null) {
+					return match;
+				}
+				filter.modifiedAfter = date;
+				break;
+			}
+			case 'until': {
+				const date = parseDate(value, true);
+				if (date === null) {
+					return match;
+				}
+				filter.modifiedBefore = date;
+				break;
+			}
+			case 'prop': {
+				const separator = value.indexOf('=');
+				if (separator <= 0) {
+					return match;
+				}
+				(filter.properties = filter.properties || []).push({
+					key: value.substring(0, separator),
+					value: value.substring(separator + 1)
+				});
+				break;
+			}
+		}
+
+		return lead;
+	});
+
+	return {
+		text: text.replace(/\s{2,}/g, ' ').trim(),
+		filter: isEmptyFilter(filter) ? null : filter
+	};
+}
+
+/**
+ * Describe a filter in the same syntax the parser accepts, for debug output.
+ */
+export function describeFilter(filter: SearchFilter): string {
+	const parts: string[] = [];
+	(filter.tagsAny || []).forEach(tag => parts.push(`tag:#${tag}`));
+	(filter.tagsAll || []).forEach(tag => parts.push(`+tag:#${tag}`));
+	(filter.tagsNone || []).forEach(tag => parts.push(`-tag:#${tag}`));
+	(filter.includePaths || []).forEach(path => parts.push(`folder:${path}`));
+	(filter.excludePaths || []).forEach(path => parts.push(`-folder:${path}`));
+	if (filter.modifiedAfter !== undefined) {
+		parts.push(`since:${new Date(filter.modifiedAfter).toLocaleDateString()}`);
+	}
+	if (filter.modifiedBefore !== undefined) {
+		parts.push(`until:${new Date(filter.modifiedBefore).toLocaleDateString()}`);
+	}
+	(filter.properties || []).forEach(property => parts.push(`prop:${property.key}=${property.value}`));
+	if (filter.notePaths) {
+		parts.push(`(${filter.notePaths.length} notes in scope)`);
+	}
+	return parts.join(' ');
+}
+
+function parseDate(value: string, endOfDay: boolean): number | null {
+	// Relative: 7d, 2w, 1m, 1y back from now
+	const relative = value.match(/^(\d+)([dwmy])$/i);
+	if (relative) {
+		const amount = parseInt(relative[1], 10);
+		const unitDays: { [unit: string]: number } = { d: 1, w: 7, m: 30, y: 365 };
+		return Date.now() - amount * unitDays[relative[2].toLowerCase()] * DAY_MS;
+	}
+
+	// Absolute: YYYY-MM-DD in local time
+	const absolute = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+	if (absolute) {
+		const date = new Date(parseInt(absolute[1], 10), parseInt(absolute[2], 10) - 1, parseInt(absolute[3], 10));
+		if (isNaN(date.getTime())) {
+			return null;
+		}
+		if (endOfDay) {
+			date.setHours(23, 59, 59, 999);
+		}
+		return date.getTime();
+	}
+
+	return null;
+}
@@ -0,0 +1,91 @@
+import { AIProvider, ChatMessage } from './provider';
+
+// Earlier turns shown to the model when rewriting
+const HISTORY_TURNS = 6;
+const TURN_CHARS = 600;
+
+export interface RewrittenQuery {
+	query: string;          // Standalone search query
+	subQueries: string[];   // Extra queries for separate parts of the question
+}
+
+/**
+ * Ask the chat model to turn the latest question into a standalone search
+ * query, resolving references like "the second one" from earlier turns, and
+ * optionally to split it into sub-queries. Falls back to the question as
+ * typed when the model's reply cannot be used.
+ */
+export async function rewriteQuery(
+	provider: AIProvider,
+	history: ChatMessage[],
+	question: string,
+	maxSubQueries: number
+): Promise<RewrittenQuery> {
+	const fallback = { query: question, subQueries: [] };
+
+	let reply: string;
+	try {
+		reply = await provider.complete(buildPrompt(history, question, maxSubQueries));
+	} catch (error) {
+		console.error('Query rewriting failed:', error);
+		return fallback;
+	}
+
+	const parsed = parseReply(reply);
+	if (!parsed || !parsed.query) {
+		return fallback;
+	}
+
+	return {
+		query: parsed.query,
+		subQueries: parsed.subQueries
+			.filter(subQuery => subQuery.toLowerCase() !== parsed.query.toLowerCase())
+			.slice(0, maxSubQueries)
+	};
+}
+
+function buildPrompt(history: ChatMessage[], question: string, maxSubQueries: number): string {
+	const turns = history
+		.filter(message => message.role !== 'system')
+		.slice(-HISTORY_TURNS)
+		.map(message => {
+			const text = message.content.replace(/\s+/g, ' ').trim();
+			const label = message.role === 'user' ? 'User' : 'Assistant';
+			return `${label}: ${text.length > TURN_CHARS ? `${text.substring(0, TURN_CHARS)}…` : text}`;
+		});
+
+	const subQueryRule = maxSubQueries > 0
+		? `If the question asks about several distinct things, also list up to ${maxSubQueries} short sub-queries, one per thing. Otherwise leave the list empty.`
+		: 'Leave "subQueries" empty.';
+
+	return `You rewrite questions into search queries for a semantic search over the user's notes.
+Rewrite the latest question so it can be understood without the conversation: replace pronouns and references like "it", "that one" or "the second one" with what they refer to, and keep names and key terms. Do not answer the question.
+${subQueryRule}
+
+Conversation so far:
+${turns.length > 0 ? turns.join('\n') : '(none)'}
+
+Latest question: ${question}
+
+Reply with JSON only, in the form {"query": "...", "subQueries": ["..."]}`;
+}
+
+function parseReply(reply: string): RewrittenQuery | null {
+	// Models often wrap JSON in a code fence or add a sentence around it
+	const match = (reply || '').match(/\{[\s\S]*\}/);
+	if (!match) {
+		return null;
+	}
+
+	try {
+		const data = JSON.parse(match[0]);
+		return {
+			query: typeof data.query === 'string' ? data.query.trim() : '',
+			subQueries: Array.isArray(data.subQueries)
+				? data.subQueries.filter((item: unknown) => typeof item === 'string' && item.trim()).map((item: string) => item.trim())
+				: []
+		};
+	} catch (e) {
+		return null;
+	}
+}
@@ -0,0 +1,118 @@
+const MINUTE_MS = 60000;
+
+export interface RetryOptions {
+	retries: number;      // Attempts after the first one
+	baseDelayMs: number;  // Doubled on every retry
+	maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	retries: 5,
+	baseDelayMs: 1000,
+	maxDelayMs: 60000
+};
+
+/**
+ * Sliding-window limiter: at most `requestsPerMinute` calls to acquire()
+ * resolve in any 60 seconds, later callers wait for a slot.
+ */
+export class RateLimiter {
+	private requestsPerMinute: number;
+	private timestamps: number[] = [];
+
+	constructor(requestsPerMinute: number) {
+		this.requestsPerMinute = requestsPerMinute;
+	}
+
+	setLimit(requestsPerMinute: number) {
+		this.requestsPerMinute = requestsPerMinute;
+	}
+
+	async acquire(): Promise<void> {
+		if (!(this.requestsPerMinute > 0)) {
+			return;
+		}
+
+		for (;;) {
+			const now = Date.now();
+			while (this.timestamps.length > 0 && this.timestamps[0] <= now - MINUTE_MS) {
+				this.timestamps.shift();
+			}
+
+			if (this.timestamps.length < this.requestsPerMinute) {
+				this.timestamps.push(now);
+				return;
+			}
+
+			await sleep(this.timestamps[0] + MINUTE_MS - now);
+		}
+	}
+}
+
+/**
+ * Run fn, retrying rate limit (429) and server (5xx) errors with exponential
+ * backoff and jitter. A retry delay suggested by the server is honoured when
+ * it is longer than the backoff.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= options.retries || !isRetryableError(error)) {
+				throw error;
+			}
+
+			const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+			const jittered = backoff / 2 + Math.random() * backoff / 2;
+			const hint = getRetryDelay(error);
+			const delay = hint !== null ? Math.min(options.maxDelayMs, Math.max(hint, jittered)) : jittered;
+
+			console.warn(`Request failed (${describeStatus(error)}), retrying in ${Math.round(delay / 1000)}s`);
+			await sleep(delay);
+		}
+	}
+}
+
+export function isRetryableError(error: any): boolean {
+	const status = getStatus(error);
+	return status === 429 || (status !== null && status >= 500);
+}
+
+/**
+ * Delay the server asked for, in milliseconds: a RetryInfo detail from the
+ * Gemini API, or a "retry in 12.3s" hint in the message.
+ */
+export function getRetryDelay(error: any): number | null {
+	const details: any[] = error && Array.isArray(error.errorDetails) ? error.errorDetails : [];
+	for (const detail of details) {
+		if (detail && typeof detail.retryDelay === 'string') {
+			const seconds = parseFloat(detail.retryDelay);
+			if (!isNaN(seconds)) {
+				return seconds * 1000;
+			}
+		}
+	}
+
+	const match = String(error && error.message || '').match(/retry in ([\d.]+)\s*s/i);
+	return match ? parseFloat(match[1]) * 1000 : null;
+}
+
+function getStatus(error: any): number | null {
+	if (error && typeof error.status === 'number') {
+		return error.status;
+	}
+
+	// Errors without a status field still carry it in the message, e.g. "[429 Too Many Requests]"
+	const match = String(error && error.message || '').match(/\[(\d{3})[ \]]/);
+	return match ? parseInt(match[1], 10) : null;
+}
+
+function describeStatus(error: any): string {
+	const status = getStatus(error);
+	return status !== null ? `HTTP ${status}` : 'error';
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,178 @@
+import { ItemView, Keymap, TFile, WorkspaceLeaf, debounce, setIcon } from 'obsidian';
+import { SearchResult } from './vector-db';
+
+export const VIEW_TYPE_RELATED_NOTES = 'gemini-related-notes-view';
+
+// Wait for rapid note switches to settle before searching
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Notes most similar to the active one, found with the embeddings already
+ * in the index, so following the active note costs no API calls.
+ */
+export class RelatedNotesView extends ItemView {
+	private plugin: any;
+	private file: TFile | null = null;
+	private listEl: HTMLElement;
+	private titleEl: HTMLElement;
+	private hideLinkedButton: HTMLElement;
+	private requestId: number = 0;  // Drops results of searches overtaken by a newer one
+	private scheduleRefresh = debounce(() => this.refresh(), REFRESH_DELAY_MS, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: any) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_RELATED_NOTES;
+	}
+
+	getDisplayText(): string {
+		return 'Related notes';
+	}
+
+	getIcon(): string {
+		return 'network';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('gemini-related-container');
+
+		const header = container.createDiv('gemini-related-header');
+		this.titleEl = header.createDiv('gemini-related-title');
+
+		const actions = header.createDiv('gemini-conversation-actions');
+		this.hideLinkedButton = this.addIconButton(actions, 'link', 'Hide notes this note already links to', async () => {
+			this.plugin.settings.relatedHideLinked = !this.plugin.settings.relatedHideLinked;
+			await this.plugin.saveSettings();
+			this.updateHideLinkedButton();
+			this.refresh();
+		});
+		this.addIconButton(actions, 'refresh-cw', 'Refresh', () => this.refresh());
+		this.updateHideLinkedButton();
+
+		this.listEl = container.createDiv('gemini-related-list');
+
+		this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.scheduleRefresh()));
+		this.refresh();
+	}
+
+	async onClose() {
+		// Ignore searches still in flight
+		this.requestId++;
+	}
+
+	/**
+	 * Search again for the active note. Focusing this view or another
+	 * non-note view keeps showing the last note.
+	 */
+	async refresh() {
+		const active = this.app.workspace.getActiveFile();
+		if (active) {
+			this.file = active;
+		}
+
+		const requestId = ++this.requestId;
+		const file = this.file;
+		this.titleEl.setText(file ? file.basename : 'Related notes');
+
+		if (!file) {
+			this.showMessage('Open a note to see related notes');
+			return;
+		}
+
+		const embedding = await this.plugin.vectorDb.getNoteEmbedding(file.path);
+		if (requestId !== this.requestId) {
+			return;
+		}
+		if (!embedding) {
+			this.showMessage('This note is not indexed yet');
+			return;
+		}
+
+		const excludePaths = [file.path];
+		if (this.plugin.settings.relatedHideLinked) {
+			excludePaths.push(...this.getLinkedPaths(file));
+		}
+
+		const results: SearchResult[] = await this.plugin.vectorDb.search(embedding, this.plugin.settings.relatedNotesCount, {
+			groupByNote: true,
+			filter: { excludePaths }
+		});
+		if (requestId !== this.requestId) {
+			return;
+		}
+
+		if (results.length === 0) {
+			this.showMessage('No related notes found');
+			return;
+		}
+
+		this.listEl.empty();
+		results.forEach(result => this.renderResult(file, result));
+	}
+
+	private renderResult(file: TFile, result: SearchResult) {
+		const target = this.app.vault.getAbstractFileByPath(result.note.path);
+		if (!(target instanceof TFile)) {
+			return;
+		}
+
+		const item = this.listEl.createDiv({ cls: 'gemini-related-item', attr: { draggable: 'true' } });
+		const titleRow = item.createDiv('gemini-related-item-title');
+		titleRow.createSpan({ text: result.note.title });
+		titleRow.createSpan({ cls: 'gemini-related-score', text: result.similarity.toFixed(3) });
+		if (target.parent && !target.parent.isRoot()) {
+			item.createDiv({ cls: 'gemini-source-meta', text: target.parent.path });
+		}
+
+		item.addEventListener('click', (evt) => {
+			this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(target);
+		});
+
+		// Page preview on hover, like links in notes
+		item.addEventListener('mouseover', (evt) => {
+			this.app.workspace.trigger('hover-link', {
+				event: evt,
+				source: VIEW_TYPE_RELATED_NOTES,
+				hoverParent: this,
+				targetEl: item,
+				linktext: target.path
+			});
+		});
+
+		// Dropping into an editor inserts a link, in the vault's link format
+		item.addEventListener('dragstart', (evt) => {
+			if (evt.dataTransfer) {
+				evt.dataTransfer.setData('text/plain', this.app.fileManager.generateMarkdownLink(target, file.path));
+				evt.dataTransfer.effectAllowed = 'copy';
+			}
+		});
+	}
+
+	private getLinkedPaths(file: TFile): string[] {
+		return Object.keys(this.app.metadataCache.resolvedLinks[file.path] || {});
+	}
+
+	private showMessage(text: string) {
+		this.listEl.empty();
+		this.listEl.createDiv({ cls: 'gemini-related-empty', text });
+	}
+
+	private updateHideLinkedButton() {
+		this.hideLinkedButton.toggleClass('is-active', !!this.plugin.settings.relatedHideLinked);
+	}
+
+	private addIconButton(container: HTMLElement, icon: string, label: string, onClick: () => void): HTMLElement {
+		const button = container.createEl('button', {
+			cls: 'clickable-icon gemini-icon-button',
+			attr: { 'aria-label': label }
+		});
+		setIcon(button, icon);
+		button.onclick = onClick;
+		return button;
+	}
+}
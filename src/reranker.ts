@@ -0,0 +1,138 @@
+import { AIProvider } from './provider';
+import { SearchResult } from './vector-db';
+import { dot, normalize } from './ann-index';
+
+export type RerankMethod = 'none' | 'llm' | 'mmr';
+
+// Text of each candidate shown to the model when grading
+const CANDIDATE_CHARS = 800;
+
+/**
+ * Re-order a candidate pool and keep the best topK. Falls back to the
+ * original order when the method cannot be applied.
+ */
+export async function rerank(
+	method: RerankMethod,
+	provider: AIProvider,
+	query: string,
+	queryEmbedding: number[],
+	candidates: SearchResult[],
+	topK: number,
+	mmrLambda: number
+): Promise<SearchResult[]> {
+	if (candidates.length <= 1) {
+		return candidates.slice(0, topK);
+	}
+
+	switch (method) {
+		case 'llm':
+			return await rerankWithModel(provider, query, candidates, topK);
+		case 'mmr':
+			return rerankWithMmr(queryEmbedding, candidates, topK, mmrLambda);
+		default:
+			return candidates.slice(0, topK);
+	}
+}
+
+/**
+ * Grade every candidate's relevance to the question in one model call and
+ * sort by the grades, keeping the retrieval order for ties.
+ */
+export async function rerankWithModel(provider: AIProvider, query: string, candidates: SearchResult[], topK: number): Promise<SearchResult[]> {
+	let grades: number[] | null = null;
+	try {
+		grades = parseGrades(await provider.complete(buildPrompt(query, candidates)), candidates.length);
+	} catch (error) {
+		console.error('Re-ranking failed:', error);
+	}
+
+	if (!grades) {
+		return candidates.slice(0, topK);
+	}
+
+	return candidates
+		.map((result, i) => ({ result: { ...result, relevance: grades![i] }, i }))
+		.sort((a, b) => (b.result.relevance - a.result.relevance) || (a.i - b.i))
+		.slice(0, topK)
+		.map(item => item.result);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the candidate most similar to
+ * the query and least similar to what was already picked, so near-duplicate
+ * notes do not crowd out the rest. lambda = 1 is plain similarity order.
+ */
+export function rerankWithMmr(queryEmbedding: number[], candidates: SearchResult[], topK: number, lambda: number): SearchResult[] {
+	if (queryEmbedding.length === 0) {
+		return candidates.slice(0, topK);
+	}
+
+	const query = normalize(queryEmbedding);
+	const vectors = candidates.map(result => result.note.embedding.length > 0 ? normalize(result.note.embedding) : null);
+	const relevance = vectors.map((vector, i) => vector ? dot(query, vector) : candidates[i].similarity);
+	// Highest similarity to any picked candidate so far
+	const redundancy = candidates.map(() => 0);
+
+	const remaining = candidates.map((_, i) => i);
+	const selected: SearchResult[] = [];
+
+	while (selected.length < topK && remaining.length > 0) {
+		let bestIndex = 0;
+		let bestScore = -Infinity;
+		remaining.forEach((candidate, index) => {
+			const score = lambda * relevance[candidate] - (1 - lambda) * redundancy[candidate];
+			if (score > bestScore) {
+				bestScore = score;
+				bestIndex = index;
+			}
+		});
+
+		const picked = remaining.splice(bestIndex, 1)[0];
+		selected.push(candidates[picked]);
+
+		const pickedVector = vectors[picked];
+		if (pickedVector) {
+			remaining.forEach(candidate => {
+				const vector = vectors[candidate];
+				if (vector) {
+					redundancy[candidate] = Math.max(redundancy[candidate], dot(vector, pickedVector));
+				}
+			});
+		}
+	}
+
+	return selected;
+}
+
+function buildPrompt(query: string, candidates: SearchResult[]): string {
+	const passages = candidates.map((result, i) => {
+		const text = result.note.content.replace(/\s+/g, ' ').trim();
+		return `[${i + 1}] ${result.note.title}\n${text.length > CANDIDATE_CHARS ? `${text.substring(0, CANDIDATE_CHARS)}…` : text}`;
+	});
+
+	return `Grade how useful each passage from the user's notes is for answering the question, from 0 (unrelated) to 10 (answers it directly).
+
+Question: ${query}
+
+Passages:
+${passages.join('\n\n')}
+
+Reply with JSON only: an array of ${candidates.length} numbers, one grade per passage in the order given, e.g. [7, 0, 3]`;
+}
+
+function parseGrades(reply: string, count: number): number[] | null {
+	const match = (reply || '').match(/\[[\s\S]*?\]/);
+	if (!match) {
+		return null;
+	}
+
+	try {
+		const grades = JSON.parse(match[0]);
+		if (!Array.isArray(grades) || grades.length !== count) {
+			return null;
+		}
+		return grades.map((grade: unknown) => typeof grade === 'number' && isFinite(grade) ? grade : 0);
+	} catch (e) {
+		return null;
+	}
+}
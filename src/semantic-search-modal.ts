@@ -0,0 +1,198 @@
+import { App, Keymap, SearchMatches, SuggestModal, TFile, renderMatches } from 'obsidian';
+import { SearchResult } from './vector-db';
+import { parseQuery } from './query-parser';
+import { stripChunkHeader } from './context-builder';
+
+// Wait for typing to pause before embedding the query
+const SEARCH_DELAY_MS = 400;
+const MAX_RESULTS = 20;
+// Characters of the matching chunk shown under each result
+const SNIPPET_CHARS = 180;
+
+/**
+ * Embeddings of recent search queries, so retyping or going back to a
+ * query does not call the API again. Oldest entries are dropped first.
+ */
+export class QueryEmbeddingCache {
+	private size: number;
+	private entries: Map<string, number[]> = new Map();
+
+	constructor(size: number) {
+		this.size = size;
+	}
+
+	get(model: string, query: string): number[] | undefined {
+		const key = `${model}\n${query}`;
+		const embedding = this.entries.get(key);
+		if (embedding) {
+			// Move to the end as the most recently used
+			this.entries.delete(key);
+			this.entries.set(key, embedding);
+		}
+		return embedding;
+	}
+
+	set(model: string, query: string, embedding: number[]) {
+		this.entries.set(`${model}\n${query}`, embedding);
+		while (this.entries.size > this.size) {
+			this.entries.delete(this.entries.keys().next().value);
+		}
+	}
+}
+
+/**
+ * Find notes by meaning: the typed query is embedded and matched against
+ * the index, without a chat model call. Accepts the chat's filter syntax.
+ */
+export class SemanticSearchModal extends SuggestModal<SearchResult> {
+	private plugin: any;
+	private requestId: number = 0;
+	private terms: string[] = [];
+	private results: SearchResult[] = [];  // What the list currently shows
+
+	constructor(app: App, plugin: any) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder('Search notes by meaning...');
+		this.emptyStateText = 'Type to search';
+		this.setInstructions([
+			{ command: '↵', purpose: 'to open' },
+			{ command: 'ctrl ↵', purpose: 'to open in a new tab' },
+			{ command: 'tag: folder: since:', purpose: 'to filter' }
+		]);
+		this.scope.register(['Mod'], 'Enter', (evt) => {
+			this.selectActiveSuggestion(evt);
+			return false;
+		});
+	}
+
+	async getSuggestions(query: string): Promise<SearchResult[]> {
+		const requestId = ++this.requestId;
+		const { text, filter } = parseQuery(query);
+		if (!text.trim()) {
+			this.emptyStateText = 'Type to search';
+			return this.show([]);
+		}
+
+		await new Promise(resolve => setTimeout(resolve, SEARCH_DELAY_MS));
+		if (requestId !== this.requestId) {
+			// Typing went on, keep the list as it is
+			return this.results;
+		}
+
+		try {
+			const embedding = await this.embed(text.trim());
+			const results: SearchResult[] = await this.plugin.vectorDb.search(embedding, MAX_RESULTS, {
+				groupByNote: true,
+				filter: filter || undefined
+			});
+			if (requestId !== this.requestId) {
+				return this.results;
+			}
+
+			this.terms = getTerms(text);
+			this.emptyStateText = 'No matching notes';
+			return this.show(results);
+		} catch (error) {
+			console.error('Semantic search failed:', error);
+			this.emptyStateText = `Search failed: ${error.message}`;
+			return this.show([]);
+		}
+	}
+
+	renderSuggestion(result: SearchResult, el: HTMLElement) {
+		el.addClass('gemini-search-result');
+
+		const titleRow = el.createDiv('gemini-search-result-title');
+		titleRow.createSpan({ text: result.note.title });
+		titleRow.createSpan({ cls: 'gemini-related-score', text: result.similarity.toFixed(3) });
+
+		const location = [result.note.path];
+		if (result.note.headings && result.note.headings.length > 0) {
+			location.push(result.note.headings.join(' > '));
+		}
+		if (result.note.page) {
+			location.push(`page ${result.note.page}`);
+		}
+		el.createDiv({ cls: 'gemini-source-meta', text: location.join(' · ') });
+
+		const { text, matches } = buildSnippet(stripChunkHeader(result.note.content), this.terms);
+		renderMatches(el.createEl('small', { cls: 'gemini-search-snippet' }), text, matches);
+	}
+
+	async onChooseSuggestion(result: SearchResult, evt: MouseEvent | KeyboardEvent) {
+		const file = this.app.vault.getAbstractFileByPath(result.note.path);
+		if (!(file instanceof TFile)) {
+			return;
+		}
+
+		const newTab = Keymap.isModEvent(evt);
+		if (result.note.fileType === 'pdf' && result.note.page) {
+			await this.app.workspace.openLinkText(`${file.path}#page=${result.note.page}`, '', newTab);
+			return;
+		}
+
+		// Scroll to the matching chunk
+		const line = !result.note.fileType || result.note.fileType === 'markdown' ? result.note.startLine || 0 : 0;
+		await this.app.workspace.getLeaf(newTab).openFile(file, { eState: { line } });
+	}
+
+	private async embed(query: string): Promise<number[]> {
+		const provider = this.plugin.provider;
+		const model = provider.getEmbeddingModelId();
+		let embedding = this.plugin.queryEmbeddings.get(model, query);
+		if (!embedding) {
+			embedding = await provider.embedQuery(query);
+			this.plugin.queryEmbeddings.set(model, query, embedding);
+		}
+		return embedding;
+	}
+
+	private show(results: SearchResult[]): SearchResult[] {
+		this.results = results;
+		return results;
+	}
+}
+
+function getTerms(query: string): string[] {
+	return Array.from(new Set(query.toLowerCase().split(/[\s.,;:!?()[\]{}"'`*#>|/\\]+/).filter(term => term.length >= 3)));
+}
+
+/**
+ * A window of the chunk around the first query word it contains, with the
+ * ranges of every query word in it for highlighting.
+ */
+function buildSnippet(content: string, terms: string[]): { text: string, matches: SearchMatches } {
+	const flat = content.replace(/\s+/g, ' ').trim();
+	const lower = flat.toLowerCase();
+
+	const first = terms
+		.map(term => lower.indexOf(term))
+		.filter(index => index !== -1)
+		.sort((a, b) => a - b)[0];
+	const start = first !== undefined ? Math.max(0, first - SNIPPET_CHARS / 3) : 0;
+	const end = Math.min(flat.length, start + SNIPPET_CHARS);
+	const text = `${start > 0 ? '…' : ''}${flat.substring(start, end)}${end < flat.length ? '…' : ''}`;
+
+	const matches: SearchMatches = [];
+	const lowerText = text.toLowerCase();
+	terms.forEach(term => {
+		for (let index = lowerText.indexOf(term); index !== -1; index = lowerText.indexOf(term, index + term.length)) {
+			matches.push([index, index + term.length]);
+		}
+	});
+	matches.sort((a, b) => a[0] - b[0]);
+
+	// renderMatches expects ranges that do not overlap
+	const merged: SearchMatches = [];
+	matches.forEach(match => {
+		const last = merged[merged.length - 1];
+		if (last && match[0] <= last[1]) {
+			last[1] = Math.max(last[1], match[1]);
+		} else {
+			merged.push([match[0], match[1]]);
+		}
+	});
+
+	return { text, matches: merged };
+}
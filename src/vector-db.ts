@@ -1,106 +1,272 @@
-import { App, TFile } from 'obsidian';
+import { App } from 'obsidian';
+import { VectorStore } from './vector-store';
+import { AdaptiveIndex, IdFilter, Neighbor, dot, normalize } from './ann-index';
+import { Bm25Index } from './lexical-index';
+import type { FileType } from './extractors';
 
 export interface VectorEntry {
-	id: string;           // Note path
+	id: string;           // Chunk id (note path + '#' + chunk index)
+	path: string;         // Parent note path
 	embedding: number[];  // Vector embedding
-	content: string;      // Note content (for context)
+	content: string;      // Chunk content (for context)
 	title: string;        // Note title
+	fileType?: FileType;  // Kind of file the text came from, markdown when missing
+	page?: number;        // Page the chunk starts on, for PDFs
 	modified: number;     // Last modified timestamp
-	tags?: string[];      // Note tags
+	tags?: string[];      // Note tags, without '#'
+	aliases?: string[];   // Frontmatter aliases
+	properties?: { [key: string]: string }; // Frontmatter properties chosen in the settings
+	headings?: string[];  // Heading trail the chunk sits under
+	startLine?: number;   // First line of the chunk in the note
+	endLine?: number;     // Last line of the chunk in the note
+	contentHash?: string; // Hash of the preprocessed chunk text
+	embeddingModel?: string;       // Model that produced the embedding
+	embeddingScheme?: string;      // How it was embedded, e.g. with retrieval task types
+	preprocessingVersion?: number; // Preprocessing the chunk text went through
 }
 
+export type Retriever = 'vector' | 'keyword';
+
 export interface SearchResult {
 	note: VectorEntry;
 	similarity: number;
+	chunks?: SearchResult[]; // All matching chunks of the note when grouped, best first
+	score?: number;          // Fused ranking score for hybrid results
+	retrievers?: Retriever[];          // Which retrievers surfaced the chunk
+	ranks?: { [R in Retriever]?: number }; // 1-based rank within each retriever
+	expansion?: GraphExpansion;        // Set when the note was added through the link graph
+	relevance?: number;      // 0-10 grade from model re-ranking
+}
+
+export interface GraphExpansion {
+	seed: string;            // Path of the search hit the note was reached from
+	relation: 'outlink' | 'backlink'; // Last hop: linked from the previous note, or linking to it
+	hops: number;
+	boost: number;           // Proximity boost added to the similarity
+}
+
+export interface PropertyFilter {
+	key: string;
+	value: string;           // Compared case-insensitively; list properties match any item
+}
+
+export interface SearchFilter {
+	includePaths?: string[]; // Path prefixes; a note must be under at least one
+	excludePaths?: string[]; // Path prefixes to leave out
+	tagsAny?: string[];      // Note must carry at least one of these tags
+	tagsAll?: string[];      // Note must carry every one of these tags
+	tagsNone?: string[];     // Note must carry none of these tags
+	modifiedAfter?: number;  // Timestamp (ms), inclusive
+	modifiedBefore?: number; // Timestamp (ms), inclusive
+	properties?: PropertyFilter[]; // Frontmatter key/value pairs that must all match
+	notePaths?: string[];    // Exact note paths; when set, only these notes are searched
 }
 
+export interface SearchOptions {
+	groupByNote?: boolean;   // Collapse chunk hits into one result per note
+	filter?: SearchFilter;
+}
+
+export interface HybridSearchOptions extends SearchOptions {
+	keywordWeight?: number;  // 0 = vector ranking only, 1 = keyword ranking only
+}
+
+// Reciprocal rank fusion constant; dampens the influence of the very top ranks
+const RRF_K = 60;
+
 export interface DatabaseStats {
 	totalNotes: number;
+	totalChunks: number;
 	lastUpdated: string | null;
 }
 
+const SAVE_DELAY_MS = 1000;
+
 export class VectorDatabase {
 	private app: App;
 	private plugin: any;
-	private dbPath: string;
+	private store: VectorStore;
 	private db: Map<string, VectorEntry>;
+	private notes: Map<string, Set<string>>; // Note path -> chunk ids
+	private index: AdaptiveIndex;
+	private lexical: Bm25Index;
 	private loaded: boolean = false;
+	private loading: Promise<void> | null = null;
+	private saveTimer: number | null = null;
+	private saving: Promise<void> = Promise.resolve();
 
 	constructor(app: App, plugin: any) {
 		this.app = app;
 		this.plugin = plugin;
-		this.dbPath = '.obsidian/plugins/gemini-vector-chat/vectors.json';
+		this.store = new VectorStore(
+			app,
+			'.obsidian/plugins/gemini-vector-chat/index',
+			'.obsidian/plugins/gemini-vector-chat/vectors.json'
+		);
 		this.db = new Map();
+		this.notes = new Map();
+		this.index = new AdaptiveIndex(plugin.settings.searchIndex || 'auto');
+		this.lexical = new Bm25Index();
 		this.loadDatabase();
 	}
 
-	private async loadDatabase() {
+	private loadDatabase(): Promise<void> {
+		// Concurrent callers share a single load
+		if (!this.loading) {
+			this.loading = this.readDatabase();
+		}
+		return this.loading;
+	}
+
+	private async readDatabase() {
 		try {
-			const adapter = this.app.vault.adapter;
-			if (await adapter.exists(this.dbPath)) {
-				const data = await adapter.read(this.dbPath);
-				const parsed = JSON.parse(data);
-
-				// Convert array back to Map
-				if (parsed.vectors && Array.isArray(parsed.vectors)) {
-					parsed.vectors.forEach((entry: VectorEntry) => {
-						this.db.set(entry.id, entry);
-					});
-				}
-			}
+			const { entries, migrated } = await this.store.load();
+
+			entries.forEach(entry => {
+				// Entries written before chunking were keyed by note path
+				entry.path = entry.path || entry.id;
+				this.indexEntry(entry);
+			});
+
 			this.loaded = true;
+
+			if (migrated) {
+				await this.flush();
+				await this.store.removeLegacyFile();
+				console.log(`Migrated ${entries.length} vectors to the binary store`);
+			}
 		} catch (error) {
 			console.error('Error loading vector database:', error);
 			this.db = new Map();
+			this.notes = new Map();
+			this.index.clear();
+			this.lexical.clear();
 			this.loaded = true;
 		}
 	}
 
-	private async saveDatabase() {
-		try {
-			const adapter = this.app.vault.adapter;
-			const dir = this.dbPath.substring(0, this.dbPath.lastIndexOf('/'));
+	/**
+	 * Persist pending changes after a short delay so bursts of single-note
+	 * updates are written together.
+	 */
+	private requestSave() {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			this.flush().catch(error => console.error('Error saving vector database:', error));
+		}, SAVE_DELAY_MS);
+	}
 
-			// Ensure directory exists
-			if (!(await adapter.exists(dir))) {
-				await adapter.mkdir(dir);
-			}
+	/**
+	 * Write all pending changes to disk now.
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
 
-			// Convert Map to array for storage
-			const data = {
-				version: '1.0.0',
-				lastUpdated: new Date().toISOString(),
-				vectors: Array.from(this.db.values())
-			};
+		// Chain onto any save already in flight so shard writes never interleave
+		const save = this.saving.then(() => this.store.save(this.db.values()));
+		this.saving = save.catch(() => undefined);
 
-			await adapter.write(this.dbPath, JSON.stringify(data, null, 2));
+		try {
+			await save;
 		} catch (error) {
 			console.error('Error saving vector database:', error);
 			throw error;
 		}
 	}
 
+	private indexEntry(entry: VectorEntry) {
+		this.db.set(entry.id, entry);
+
+		// Vectors are normalized once here so search is a plain dot product
+		if (entry.embedding && entry.embedding.length > 0) {
+			this.index.add(entry.id, normalize(entry.embedding));
+		} else {
+			this.index.remove(entry.id);
+		}
+		this.lexical.add(entry.id, entry.content);
+
+		let chunkIds = this.notes.get(entry.path);
+		if (!chunkIds) {
+			chunkIds = new Set();
+			this.notes.set(entry.path, chunkIds);
+		}
+		chunkIds.add(entry.id);
+	}
+
+	private setEntry(entry: VectorEntry) {
+		this.indexEntry(entry);
+		this.store.markDirty(entry.path);
+	}
+
+	private deleteEntry(id: string) {
+		const entry = this.db.get(id);
+		if (!entry) {
+			return;
+		}
+
+		this.db.delete(id);
+		this.index.remove(id);
+		this.lexical.remove(id);
+		this.store.markDirty(entry.path);
+		const chunkIds = this.notes.get(entry.path);
+		if (chunkIds) {
+			chunkIds.delete(id);
+			if (chunkIds.size === 0) {
+				this.notes.delete(entry.path);
+			}
+		}
+	}
+
+	private deleteNote(path: string): boolean {
+		const chunkIds = this.notes.get(path);
+		if (!chunkIds) {
+			return false;
+		}
+
+		for (const id of chunkIds) {
+			this.db.delete(id);
+			this.index.remove(id);
+			this.lexical.remove(id);
+		}
+		this.notes.delete(path);
+		this.store.markDirty(path);
+		return true;
+	}
+
 	async addVector(entry: VectorEntry) {
 		// Ensure database is loaded
 		if (!this.loaded) {
 			await this.loadDatabase();
 		}
 
-		this.db.set(entry.id, entry);
-		await this.saveDatabase();
+		this.setEntry(entry);
+		this.requestSave();
 	}
 
+	/**
+	 * Add chunk entries, replacing every previously stored chunk of the notes
+	 * they belong to so a shrinking note does not leave stale chunks behind.
+	 */
 	async addVectors(entries: VectorEntry[]) {
 		// Ensure database is loaded
 		if (!this.loaded) {
 			await this.loadDatabase();
 		}
 
+		const paths = new Set(entries.map(entry => entry.path));
+		paths.forEach(path => this.deleteNote(path));
+
 		entries.forEach(entry => {
-			this.db.set(entry.id, entry);
+			this.setEntry(entry);
 		});
 
-		await this.saveDatabase();
+		this.requestSave();
 	}
 
 	async removeVector(id: string) {
@@ -108,8 +274,60 @@ export class VectorDatabase {
 			await this.loadDatabase();
 		}
 
-		this.db.delete(id);
-		await this.saveDatabase();
+		this.deleteEntry(id);
+		this.requestSave();
+	}
+
+	async removeNote(path: string) {
+		if (!this.loaded) {
+			await this.loadDatabase();
+		}
+
+		if (this.deleteNote(path)) {
+			this.requestSave();
+		}
+	}
+
+	/**
+	 * Move a note's chunks to a new path without re-embedding them.
+	 * Returns false when nothing was indexed under the old path.
+	 */
+	async renameNote(oldPath: string, newPath: string, newTitle: string): Promise<boolean> {
+		if (!this.loaded) {
+			await this.loadDatabase();
+		}
+
+		const chunkIds = this.notes.get(oldPath);
+		if (!chunkIds) {
+			return false;
+		}
+
+		const entries: VectorEntry[] = [];
+		chunkIds.forEach(id => {
+			const entry = this.db.get(id);
+			if (entry) {
+				entries.push(entry);
+			}
+		});
+
+		this.deleteNote(oldPath);
+		this.deleteNote(newPath);
+
+		for (const entry of entries) {
+			const suffix = entry.id.substring(oldPath.length);
+			this.setEntry({
+				...entry,
+				id: newPath + suffix,
+				path: newPath,
+				title: newTitle,
+				content: entry.content
+					.replace(`Title: ${entry.title}\n`, `Title: ${newTitle}\n`)
+					.replace(`Path: ${oldPath}\n`, `Path: ${newPath}\n`)
+			});
+		}
+
+		this.requestSave();
+		return true;
 	}
 
 	async getVector(id: string): Promise<VectorEntry | undefined> {
@@ -120,7 +338,48 @@ export class VectorDatabase {
 		return this.db.get(id);
 	}
 
-	async search(queryEmbedding: number[], topK: number = 5): Promise<SearchResult[]> {
+	async getNoteVectors(path: string): Promise<VectorEntry[]> {
+		if (!this.loaded) {
+			await this.loadDatabase();
+		}
+
+		const chunkIds = this.notes.get(path);
+		if (!chunkIds) {
+			return [];
+		}
+
+		const entries: VectorEntry[] = [];
+		chunkIds.forEach(id => {
+			const entry = this.db.get(id);
+			if (entry) {
+				entries.push(entry);
+			}
+		});
+		return entries.sort((a, b) => (a.startLine || 0) - (b.startLine || 0));
+	}
+
+	/**
+	 * One vector for a whole note: the mean of its normalized chunk
+	 * embeddings, or null when the note is not indexed.
+	 */
+	async getNoteEmbedding(path: string): Promise<number[] | null> {
+		const embeddings = (await this.getNoteVectors(path))
+			.filter(entry => entry.embedding.length > 0)
+			.map(entry => normalize(entry.embedding));
+		if (embeddings.length === 0) {
+			return null;
+		}
+
+		const mean = new Float32Array(embeddings[0].length);
+		embeddings.forEach(embedding => {
+			if (embedding.length === mean.length) {
+				embedding.forEach((value, i) => mean[i] += value);
+			}
+		});
+		return Array.from(normalize(mean));
+	}
+
+	async search(queryEmbedding: number[], topK: number = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
 		if (!this.loaded) {
 			await this.loadDatabase();
 		}
@@ -129,47 +388,236 @@ export class VectorDatabase {
 			return [];
 		}
 
-		const results: SearchResult[] = [];
+		this.index.setMode(this.plugin.settings.searchIndex || 'auto');
+		const query = normalize(queryEmbedding);
+		const filter = this.createFilter(options.filter);
 
-		// Calculate similarity for each vector in the database
-		for (const entry of this.db.values()) {
-			if (entry.embedding && entry.embedding.length > 0) {
-				const similarity = this.cosineSimilarity(queryEmbedding, entry.embedding);
-				results.push({ note: entry, similarity });
+		if (!options.groupByNote) {
+			return this.toResults(this.index.search(query, topK, filter));
+		}
+
+		// Several chunks of one note can crowd the candidates, so widen the
+		// search until enough distinct notes turn up
+		let k = topK * 4;
+		for (;;) {
+			const results = this.toResults(this.index.search(query, k, filter));
+			const grouped = this.groupByNote(results, topK);
+			if (grouped.length >= topK || results.length < k || k >= this.db.size) {
+				return grouped;
 			}
+			k *= 2;
 		}
+	}
 
-		// Sort by similarity (descending) and return top K
-		results.sort((a, b) => b.similarity - a.similarity);
-		return results.slice(0, topK);
+	/**
+	 * Merge vector and BM25 keyword rankings with weighted reciprocal rank
+	 * fusion. Each result records which retrievers found it and at what rank.
+	 */
+	async hybridSearch(
+		queryText: string,
+		queryEmbedding: number[],
+		topK: number = 5,
+		options: HybridSearchOptions = {}
+	): Promise<SearchResult[]> {
+		if (!this.loaded) {
+			await this.loadDatabase();
+		}
+
+		const keywordWeight = Math.max(0, Math.min(1, options.keywordWeight ?? 0.3));
+		const hasEmbedding = !!queryEmbedding && queryEmbedding.length > 0;
+		const query = hasEmbedding ? normalize(queryEmbedding) : null;
+
+		const filter = this.createFilter(options.filter);
+
+		this.index.setMode(this.plugin.settings.searchIndex || 'auto');
+
+		let poolSize = Math.max(topK * 4, 50);
+		for (;;) {
+			const vectorHits = query ? this.index.search(query, poolSize, filter) : [];
+			const keywordHits = this.lexical.search(queryText, poolSize, filter);
+			const fused = new Map<string, SearchResult>();
+
+			const addRanking = (hits: Neighbor[], retriever: Retriever, weight: number) => {
+				hits.forEach((hit, i) => {
+					const entry = this.db.get(hit.id);
+					if (!entry) {
+						return;
+					}
+
+					let result = fused.get(hit.id);
+					if (!result) {
+						// Keyword-only hits still get a cosine similarity for display and thresholds
+						const similarity = retriever === 'vector'
+							? hit.score
+							: query && entry.embedding.length > 0 ? dot(query, normalize(entry.embedding)) : 0;
+						result = { note: entry, similarity, score: 0, retrievers: [], ranks: {} };
+						fused.set(hit.id, result);
+					}
+
+					result.score! += weight / (RRF_K + i + 1);
+					result.retrievers!.push(retriever);
+					result.ranks![retriever] = i + 1;
+				});
+			};
+
+			addRanking(vectorHits, 'vector', 1 - keywordWeight);
+			addRanking(keywordHits, 'keyword', keywordWeight);
+
+			const results = Array.from(fused.values()).sort((a, b) => b.score! - a.score!);
+			if (!options.groupByNote) {
+				return results.slice(0, topK);
+			}
+
+			const grouped = this.groupByNote(results, topK);
+			const exhausted = vectorHits.length < poolSize && keywordHits.length < poolSize;
+			if (grouped.length >= topK || exhausted || poolSize >= this.db.size) {
+				return grouped;
+			}
+			poolSize *= 2;
+		}
+	}
+
+	/**
+	 * Turn a SearchFilter into an id predicate. Note-level checks are cached
+	 * per path since every chunk of a note shares the same metadata.
+	 */
+	private createFilter(filter?: SearchFilter): IdFilter | undefined {
+		if (!filter || isEmptyFilter(filter)) {
+			return undefined;
+		}
+
+		const notes = new Map<string, boolean>();
+		const notePaths = filter.notePaths ? new Set(filter.notePaths) : null;
+		return (id: string) => {
+			const entry = this.db.get(id);
+			if (!entry || (notePaths && !notePaths.has(entry.path))) {
+				return false;
+			}
+
+			let matches = notes.get(entry.path);
+			if (matches === undefined) {
+				matches = this.matchesFilter(entry, filter);
+				notes.set(entry.path, matches);
+			}
+			return matches;
+		};
+	}
+
+	private matchesFilter(entry: VectorEntry, filter: SearchFilter): boolean {
+		const path = entry.path;
+
+		if (filter.includePaths && filter.includePaths.length > 0
+			&& !filter.includePaths.some(prefix => isUnderPath(path, prefix))) {
+			return false;
+		}
+		if (filter.excludePaths && filter.excludePaths.some(prefix => isUnderPath(path, prefix))) {
+			return false;
+		}
+
+		if (filter.modifiedAfter !== undefined && entry.modified < filter.modifiedAfter) {
+			return false;
+		}
+		if (filter.modifiedBefore !== undefined && entry.modified > filter.modifiedBefore) {
+			return false;
+		}
+
+		const tags = (entry.tags || []).map(normalizeTag);
+		if (filter.tagsAny && filter.tagsAny.length > 0
+			&& !filter.tagsAny.some(tag => hasTag(tags, tag))) {
+			return false;
+		}
+		if (filter.tagsAll && !filter.tagsAll.every(tag => hasTag(tags, tag))) {
+			return false;
+		}
+		if (filter.tagsNone && filter.tagsNone.some(tag => hasTag(tags, tag))) {
+			return false;
+		}
+
+		if (filter.properties && filter.properties.length > 0) {
+			// Read frontmatter live from Obsidian's cache instead of storing it per chunk
+			const cache = this.app.metadataCache.getCache(path);
+			const frontmatter = cache && cache.frontmatter;
+			if (!frontmatter) {
+				return false;
+			}
+			return filter.properties.every(property => matchesProperty(frontmatter[property.key], property.value));
+		}
+
+		return true;
 	}
 
-	private cosineSimilarity(a: number[], b: number[]): number {
-		if (a.length !== b.length) {
-			console.warn('Vector length mismatch:', a.length, 'vs', b.length);
-			return 0;
+	/**
+	 * Score specific notes against a query, one grouped result per note
+	 * holding its best chunk. Used to rank notes found through links.
+	 */
+	async scoreNotes(paths: string[], queryEmbedding: number[], filter?: SearchFilter): Promise<SearchResult[]> {
+		if (!this.loaded) {
+			await this.loadDatabase();
+		}
+
+		const query = normalize(queryEmbedding);
+		const idFilter = this.createFilter(filter);
+		const results: SearchResult[] = [];
+
+		for (const path of paths) {
+			let best: SearchResult | null = null;
+			(this.notes.get(path) || new Set<string>()).forEach(id => {
+				const entry = this.db.get(id);
+				if (!entry || entry.embedding.length !== query.length || (idFilter && !idFilter(id))) {
+					return;
+				}
+
+				const similarity = dot(query, normalize(entry.embedding));
+				if (!best || similarity > best.similarity) {
+					best = { note: entry, similarity };
+				}
+			});
+
+			if (best) {
+				const result: SearchResult = best;
+				results.push({ ...result, chunks: [result] });
+			}
 		}
 
-		let dotProduct = 0;
-		let normA = 0;
-		let normB = 0;
+		return results;
+	}
 
-		for (let i = 0; i < a.length; i++) {
-			dotProduct += a[i] * b[i];
-			normA += a[i] * a[i];
-			normB += b[i] * b[i];
+	private toResults(neighbors: Neighbor[]): SearchResult[] {
+		const results: SearchResult[] = [];
+		for (const neighbor of neighbors) {
+			const entry = this.db.get(neighbor.id);
+			if (entry) {
+				results.push({ note: entry, similarity: neighbor.score });
+			}
 		}
+		return results;
+	}
+
+	private groupByNote(results: SearchResult[], topK: number): SearchResult[] {
+		const grouped = new Map<string, SearchResult>();
+
+		// Results arrive sorted, so the first chunk seen for a note is its best hit
+		for (const result of results) {
+			const path = result.note.path;
+			const group = grouped.get(path);
 
-		if (normA === 0 || normB === 0) {
-			return 0;
+			if (group) {
+				group.chunks!.push(result);
+			} else if (grouped.size < topK) {
+				grouped.set(path, { ...result, chunks: [result] });
+			}
 		}
 
-		return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+		return Array.from(grouped.values());
 	}
 
 	async clear() {
 		this.db.clear();
-		await this.saveDatabase();
+		this.notes.clear();
+		this.index.clear();
+		this.lexical.clear();
+		this.store.markAllDirty();
+		await this.flush();
 	}
 
 	async getStats(): Promise<DatabaseStats> {
@@ -194,7 +642,8 @@ export class VectorDatabase {
 		}
 
 		return {
-			totalNotes: this.db.size,
+			totalNotes: this.notes.size,
+			totalChunks: this.db.size,
 			lastUpdated
 		};
 	}
@@ -204,10 +653,16 @@ export class VectorDatabase {
 			await this.loadDatabase();
 		}
 
-		return Array.from(this.db.keys());
+		return Array.from(this.notes.keys());
 	}
 
-	async needsReindexing(): Promise<boolean> {
+
+	/**
+	 * Structural staleness check: an empty index, or chunks embedded with a
+	 * different model, embedding scheme or preprocessing version. Missing and
+	 * changed notes are detected by the indexer through content hashes.
+	 */
+	async needsReindexing(embeddingModel: string, embeddingScheme: string, preprocessingVersion: number): Promise<boolean> {
 		if (!this.loaded) {
 			await this.loadDatabase();
 		}
@@ -217,21 +672,10 @@ export class VectorDatabase {
 			return true;
 		}
 
-		// Check if any notes are missing or have been modified
-		const files = this.app.vault.getMarkdownFiles();
-
-		// Quick check: if file count doesn't match, we need reindexing
-		if (files.length !== this.db.size) {
-			return true;
-		}
-
-		// Check a sample of files for modifications
-		const samplSize = Math.min(10, files.length);
-		for (let i = 0; i < samplSize; i++) {
-			const file = files[Math.floor(Math.random() * files.length)];
-			const entry = this.db.get(file.path);
-
-			if (!entry || file.stat.mtime > entry.modified) {
+		for (const entry of this.db.values()) {
+			if (entry.embeddingModel !== embeddingModel
+				|| entry.embeddingScheme !== embeddingScheme
+				|| entry.preprocessingVersion !== preprocessingVersion) {
 				return true;
 			}
 		}
@@ -239,51 +683,109 @@ export class VectorDatabase {
 		return false;
 	}
 
-	async getModifiedNotes(): Promise<TFile[]> {
-		if (!this.loaded) {
-			await this.loadDatabase();
-		}
-
-		const modifiedFiles: TFile[] = [];
-		const files = this.app.vault.getMarkdownFiles();
-
-		for (const file of files) {
-			const entry = this.db.get(file.path);
-
-			// Note is new or modified
-			if (!entry || file.stat.mtime > entry.modified) {
-				modifiedFiles.push(file);
-			}
-		}
-
-		return modifiedFiles;
-	}
-
 	async removeDeletedNotes() {
 		if (!this.loaded) {
 			await this.loadDatabase();
 		}
 
-		const files = this.app.vault.getMarkdownFiles();
+		const files = this.app.vault.getFiles();
 		const currentPaths = new Set(files.map(f => f.path));
 		const toDelete: string[] = [];
 
 		// Find notes that no longer exist
-		for (const id of this.db.keys()) {
-			if (!currentPaths.has(id)) {
-				toDelete.push(id);
+		for (const path of this.notes.keys()) {
+			if (!currentPaths.has(path)) {
+				toDelete.push(path);
 			}
 		}
 
 		// Remove them from database
-		for (const id of toDelete) {
-			this.db.delete(id);
+		for (const path of toDelete) {
+			this.deleteNote(path);
 		}
 
 		if (toDelete.length > 0) {
-			await this.saveDatabase();
+			this.requestSave();
 		}
 
 		return toDelete.length;
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Fuse several grouped result lists, e.g. one per sub-query, with reciprocal
+ * rank fusion. A note found by more than one list keeps all its chunks.
+ */
+export function mergeRankings(lists: SearchResult[][], topK: number): SearchResult[] {
+	if (lists.length === 1) {
+		return lists[0].slice(0, topK);
+	}
+
+	const merged = new Map<string, SearchResult>();
+	lists.forEach(list => {
+		list.forEach((result, i) => {
+			const path = result.note.path;
+			const existing = merged.get(path);
+			const score = 1 / (RRF_K + i + 1);
+
+			if (!existing) {
+				merged.set(path, { ...result, score, chunks: (result.chunks || [result]).slice() });
+				return;
+			}
+
+			existing.score! += score;
+			const ids = new Set(existing.chunks!.map(chunk => chunk.note.id));
+			(result.chunks || [result]).forEach(chunk => {
+				if (!ids.has(chunk.note.id)) {
+					existing.chunks!.push(chunk);
+				}
+			});
+			existing.chunks!.sort((a, b) => b.similarity - a.similarity);
+			if (result.similarity > existing.similarity) {
+				existing.note = result.note;
+				existing.similarity = result.similarity;
+			}
+		});
+	});
+
+	return Array.from(merged.values())
+		.sort((a, b) => b.score! - a.score!)
+		.slice(0, topK);
+}
+
+export function isEmptyFilter(filter: SearchFilter): boolean {
+	return !(filter.includePaths && filter.includePaths.length > 0)
+		&& !(filter.excludePaths && filter.excludePaths.length > 0)
+		&& !(filter.tagsAny && filter.tagsAny.length > 0)
+		&& !(filter.tagsAll && filter.tagsAll.length > 0)
+		&& !(filter.tagsNone && filter.tagsNone.length > 0)
+		&& filter.modifiedAfter === undefined
+		&& filter.modifiedBefore === undefined
+		&& !(filter.properties && filter.properties.length > 0)
+		&& !filter.notePaths;
+}
+
+function isUnderPath(path: string, prefix: string): boolean {
+	const normalized = prefix.replace(/^\/+/, '');
+	return normalized === '' || path === normalized || path.startsWith(normalized.endsWith('/') ? normalized : `${normalized}/`);
+}
+
+function normalizeTag(tag: string): string {
+	return tag.replace(/^#/, '').toLowerCase();
+}
+
+// Obsidian tag semantics: #project also matches nested tags like #project/alpha
+function hasTag(tags: string[], tag: string): boolean {
+	const wanted = normalizeTag(tag);
+	return tags.some(t => t === wanted || t.startsWith(`${wanted}/`));
+}
+
+function matchesProperty(value: unknown, expected: string): boolean {
+	if (value === undefined || value === null) {
+		return false;
+	}
+	if (Array.isArray(value)) {
+		return value.some(item => matchesProperty(item, expected));
+	}
+	return String(value).toLowerCase() === expected.toLowerCase();
+}
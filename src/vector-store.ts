@@ -0,0 +1,233 @@
+import { App } from 'obsidian';
+import { VectorEntry } from './vector-db';
+import { hashContent } from './hash';
+
+const STORE_VERSION = '2.0.0';
+const SHARD_COUNT = 16;
+
+interface StoreManifest {
+	version: string;
+	lastUpdated: string;
+	shardCount: number;
+}
+
+// Chunk metadata as written to a shard's JSON file; the embedding lives in the .bin file
+interface ShardEntry extends Omit<VectorEntry, 'embedding'> {
+	offset: number;       // Offset into the shard's Float32 array
+	dimensions: number;
+}
+
+interface ShardFile {
+	version: string;
+	binFile: string;      // Name of the .bin file holding this shard's embeddings
+	byteLength: number;
+	entries: ShardEntry[];
+}
+
+export interface LoadedStore {
+	entries: VectorEntry[];
+	lastUpdated: string | null;
+	migrated: boolean;    // True when the entries came from a legacy vectors.json
+}
+
+/**
+ * On-disk storage for the vector database. Entries are spread over a fixed
+ * number of shards by note path; each shard keeps embeddings as raw Float32
+ * data in a .bin file and the remaining metadata in a compact .json file, so
+ * an update only rewrites the shards that changed.
+ */
+export class VectorStore {
+	private app: App;
+	private dir: string;
+	private legacyPath: string;
+	private dirtyShards: Set<number> = new Set();
+	private binFiles: Map<number, string> = new Map(); // Shard -> current .bin file name
+
+	constructor(app: App, dir: string, legacyPath: string) {
+		this.app = app;
+		this.dir = dir;
+		this.legacyPath = legacyPath;
+	}
+
+	shardFor(path: string): number {
+		return parseInt(hashContent(path), 16) % SHARD_COUNT;
+	}
+
+	markDirty(path: string) {
+		this.dirtyShards.add(this.shardFor(path));
+	}
+
+	markAllDirty() {
+		for (let shard = 0; shard < SHARD_COUNT; shard++) {
+			this.dirtyShards.add(shard);
+		}
+	}
+
+	hasChanges(): boolean {
+		return this.dirtyShards.size > 0;
+	}
+
+	async load(): Promise<LoadedStore> {
+		const adapter = this.app.vault.adapter;
+
+		if (await adapter.exists(this.manifestPath())) {
+			const manifest: StoreManifest = JSON.parse(await adapter.read(this.manifestPath()));
+			const entries: VectorEntry[] = [];
+
+			for (let shard = 0; shard < manifest.shardCount; shard++) {
+				entries.push(...await this.readShard(shard));
+			}
+			await this.removeOrphanedBinaries();
+
+			// Rewrite everything if the shard layout changed since the last save
+			if (manifest.shardCount !== SHARD_COUNT) {
+				this.markAllDirty();
+			}
+
+			return { entries, lastUpdated: manifest.lastUpdated, migrated: false };
+		}
+
+		// Migrate the single pretty-printed JSON file used by version 1.0.0
+		if (await adapter.exists(this.legacyPath)) {
+			const parsed = JSON.parse(await adapter.read(this.legacyPath));
+			const entries: VectorEntry[] = parsed.vectors && Array.isArray(parsed.vectors) ? parsed.vectors : [];
+			this.markAllDirty();
+			return { entries, lastUpdated: parsed.lastUpdated || null, migrated: true };
+		}
+
+		return { entries: [], lastUpdated: null, migrated: false };
+	}
+
+	/**
+	 * Write every dirty shard. `entries` is the full database; only the
+	 * entries belonging to dirty shards are serialized.
+	 */
+	async save(entries: Iterable<VectorEntry>) {
+		if (this.dirtyShards.size === 0) {
+			return;
+		}
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.dir))) {
+			await adapter.mkdir(this.dir);
+		}
+
+		const dirty = this.dirtyShards;
+		this.dirtyShards = new Set();
+
+		const byShard = new Map<number, VectorEntry[]>();
+		dirty.forEach(shard => byShard.set(shard, []));
+		for (const entry of entries) {
+			const shardEntries = byShard.get(this.shardFor(entry.path));
+			if (shardEntries) {
+				shardEntries.push(entry);
+			}
+		}
+
+		try {
+			for (const [shard, shardEntries] of byShard) {
+				await this.writeShard(shard, shardEntries);
+			}
+
+			const manifest: StoreManifest = {
+				version: STORE_VERSION,
+				lastUpdated: new Date().toISOString(),
+				shardCount: SHARD_COUNT
+			};
+			await adapter.write(this.manifestPath(), JSON.stringify(manifest));
+		} catch (error) {
+			// Keep the shards dirty so the next save retries them
+			dirty.forEach(shard => this.dirtyShards.add(shard));
+			throw error;
+		}
+	}
+
+	async removeLegacyFile() {
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(this.legacyPath)) {
+			await adapter.remove(this.legacyPath);
+		}
+	}
+
+	private async readShard(shard: number): Promise<VectorEntry[]> {
+		const adapter = this.app.vault.adapter;
+		const metaPath = this.shardMetaPath(shard);
+
+		if (!(await adapter.exists(metaPath))) {
+			return [];
+		}
+
+		const meta: ShardFile = JSON.parse(await adapter.read(metaPath));
+		const binPath = `${this.dir}/${meta.binFile}`;
+		const buffer = (await adapter.exists(binPath)) ? await adapter.readBinary(binPath) : null;
+
+		if (!buffer || buffer.byteLength !== meta.byteLength) {
+			console.warn(`Vector shard ${shard} is incomplete, its notes will be re-indexed`);
+			return [];
+		}
+		this.binFiles.set(shard, meta.binFile);
+
+		const floats = new Float32Array(buffer);
+		return meta.entries.map(({ offset, dimensions, ...entry }) => ({
+			...entry,
+			embedding: Array.from(floats.subarray(offset, offset + dimensions))
+		}));
+	}
+
+	private async writeShard(shard: number, entries: VectorEntry[]) {
+		const adapter = this.app.vault.adapter;
+		const totalFloats = entries.reduce((sum, entry) => sum + entry.embedding.length, 0);
+		const floats = new Float32Array(totalFloats);
+		const metaEntries: ShardEntry[] = [];
+
+		let offset = 0;
+		for (const { embedding, ...entry } of entries) {
+			floats.set(embedding, offset);
+			metaEntries.push({ ...entry, offset, dimensions: embedding.length });
+			offset += embedding.length;
+		}
+
+		// Embeddings go to a fresh file first, so an interrupted save leaves the
+		// previous JSON pointing at the previous, still intact, binary
+		const binFile = `${this.shardName(shard)}-${Date.now().toString(36)}.bin`;
+		await adapter.writeBinary(`${this.dir}/${binFile}`, floats.buffer);
+
+		const meta: ShardFile = {
+			version: STORE_VERSION,
+			binFile,
+			byteLength: floats.byteLength,
+			entries: metaEntries
+		};
+		await adapter.write(this.shardMetaPath(shard), JSON.stringify(meta));
+
+		const previous = this.binFiles.get(shard);
+		this.binFiles.set(shard, binFile);
+		if (previous && previous !== binFile && await adapter.exists(`${this.dir}/${previous}`)) {
+			await adapter.remove(`${this.dir}/${previous}`);
+		}
+	}
+
+	private async removeOrphanedBinaries() {
+		const adapter = this.app.vault.adapter;
+		const inUse = new Set(Array.from(this.binFiles.values()).map(name => `${this.dir}/${name}`));
+		const listing = await adapter.list(this.dir);
+
+		for (const file of listing.files) {
+			if (file.endsWith('.bin') && !inUse.has(file)) {
+				await adapter.remove(file);
+			}
+		}
+	}
+
+	private manifestPath(): string {
+		return `${this.dir}/manifest.json`;
+	}
+
+	private shardName(shard: number): string {
+		return shard < 10 ? `shard-0${shard}` : `shard-${shard}`;
+	}
+
+	private shardMetaPath(shard: number): string {
+		return `${this.dir}/${this.shardName(shard)}.json`;
+	}
+}
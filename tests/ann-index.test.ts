@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AdaptiveIndex, ExactIndex, HnswIndex, Neighbor, dot, normalize } from '../src/ann-index';
+
+const DIMENSIONS = 64;
+const K = 10;
+// Set HNSW_BENCHMARK=1 to also compare latency on a larger vault
+const BENCHMARK = !!process.env.HNSW_BENCHMARK;
+
+// Seeded generator so every run benchmarks the same data
+function random(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state * 1664525 + 1013904223) % 4294967296;
+		return state / 4294967296;
+	};
+}
+
+function gaussian(next: () => number): number {
+	return Math.sqrt(-2 * Math.log(next() || 1e-12)) * Math.cos(2 * Math.PI * next());
+}
+
+/**
+ * Unit vectors mixed from a few dozen latent directions plus noise, which
+ * is closer to real embeddings than uniform noise.
+ */
+function syntheticVectors(count: number, seed: number, dimensions: number = DIMENSIONS): Float32Array[] {
+	const next = random(seed);
+	const basis = Array.from({ length: 32 }, () => Array.from({ length: dimensions }, () => gaussian(next)));
+	return Array.from({ length: count }, () => {
+		const vector = new Array(dimensions).fill(0).map(() => gaussian(next) * 0.2);
+		basis.forEach(direction => {
+			const weight = gaussian(next);
+			direction.forEach((value, i) => vector[i] += weight * value);
+		});
+		return normalize(vector);
+	});
+}
+
+function recallAt(k: number, truth: Neighbor[][], approximate: Neighbor[][]): number {
+	let found = 0;
+	approximate.forEach((neighbors, q) => {
+		const expected = new Set(truth[q].map(n => n.id));
+		found += neighbors.filter(n => expected.has(n.id)).length;
+	});
+	return found / (truth.length * k);
+}
+
+function measure(queries: Float32Array[], search: (query: Float32Array) => Neighbor[]): { results: Neighbor[][], msPerQuery: number } {
+	const start = performance.now();
+	const results = queries.map(search);
+	return { results, msPerQuery: (performance.now() - start) / queries.length };
+}
+
+describe('ExactIndex', () => {
+	it('returns the true nearest neighbours in order', () => {
+		const vectors = syntheticVectors(500, 1);
+		const index = new ExactIndex();
+		vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+		const query = vectors[7];
+		const expected = vectors
+			.map((vector, i) => ({ id: `v${i}`, score: dot(query, vector) }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, K);
+
+		expect(index.search(query, K).map(n => n.id)).toEqual(expected.map(n => n.id));
+	});
+
+	it('applies filters and forgets removed vectors', () => {
+		const vectors = syntheticVectors(100, 2);
+		const index = new ExactIndex();
+		vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+		index.remove('v3');
+
+		expect(index.search(vectors[3], 5).map(n => n.id)).not.toContain('v3');
+		expect(index.search(vectors[0], 5, id => id.endsWith('5')).every(n => n.id.endsWith('5'))).toBe(true);
+	});
+});
+
+describe('HnswIndex against brute force', () => {
+	it('keeps recall@10 high', () => {
+		const vectors = syntheticVectors(2000, 3);
+		const queries = syntheticVectors(50, 4);
+		const exact = new ExactIndex();
+		const hnsw = new HnswIndex();
+		vectors.forEach((vector, i) => {
+			exact.add(`v${i}`, vector);
+			hnsw.add(`v${i}`, vector);
+		});
+
+		const truth = queries.map(query => exact.search(query, K));
+		const approximate = queries.map(query => hnsw.search(query, K));
+
+		expect(recallAt(K, truth, approximate)).toBeGreaterThanOrEqual(0.9);
+	});
+
+	it.runIf(BENCHMARK)('answers faster than a full scan on a large vault', () => {
+		const vectors = syntheticVectors(8000, 3, 256);
+		const queries = syntheticVectors(100, 4, 256);
+		const exact = new ExactIndex();
+		const hnsw = new HnswIndex();
+		vectors.forEach((vector, i) => {
+			exact.add(`v${i}`, vector);
+			hnsw.add(`v${i}`, vector);
+		});
+
+		// Warm up both before timing
+		queries.slice(0, 10).forEach(query => {
+			exact.search(query, K);
+			hnsw.search(query, K);
+		});
+
+		const truth = measure(queries, query => exact.search(query, K));
+		const approximate = measure(queries, query => hnsw.search(query, K));
+
+		expect(recallAt(K, truth.results, approximate.results)).toBeGreaterThanOrEqual(0.9);
+		expect(approximate.msPerQuery).toBeLessThan(truth.msPerQuery);
+	}, 120000);
+
+	it('stops returning removed vectors without rebuilding', () => {
+		const vectors = syntheticVectors(1000, 5);
+		const hnsw = new HnswIndex();
+		vectors.forEach((vector, i) => hnsw.add(`v${i}`, vector));
+		for (let i = 0; i < 300; i++) {
+			hnsw.remove(`v${i}`);
+		}
+
+		expect(hnsw.size()).toBe(700);
+		expect(hnsw.needsCompaction()).toBe(true);
+		const ids = vectors.slice(0, 20).map(query => hnsw.search(query, K)).flat().map(n => n.id);
+		expect(ids.every(id => Number(id.substring(1)) >= 300)).toBe(true);
+	});
+});
+
+describe('AdaptiveIndex', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('replaces a graph worn out by removals with a background build', async () => {
+		vi.useFakeTimers();
+		vi.stubGlobal('window', { setTimeout });
+		const vectors = syntheticVectors(600, 6);
+		const index = new AdaptiveIndex('hnsw');
+		vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+		const exact = new ExactIndex();
+		vectors.forEach((vector, i) => exact.add(`v${i}`, vector));
+		const queries = vectors.slice(300, 340);
+
+		// The first search starts the build and is answered exactly
+		expect(index.search(vectors[0], 1)[0].id).toBe('v0');
+		expect(index.isBuilding()).toBe(true);
+		await vi.runAllTimersAsync();
+		expect(index.isBuilding()).toBe(false);
+
+		for (let i = 0; i < 200; i++) {
+			index.remove(`v${i}`);
+			exact.remove(`v${i}`);
+		}
+
+		// Compaction builds a new graph in slices, exact search answers meanwhile
+		expect(index.isBuilding()).toBe(true);
+		const truth = queries.map(query => exact.search(query, K));
+		expect(queries.map(query => index.search(query, K))).toEqual(truth);
+
+		await vi.runAllTimersAsync();
+		expect(index.isBuilding()).toBe(false);
+		const approximate = queries.map(query => index.search(query, K));
+		expect(approximate.flat().every(n => Number(n.id.substring(1)) >= 200)).toBe(true);
+		expect(recallAt(K, truth, approximate)).toBeGreaterThan(0.9);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { chunkMarkdown } from '../src/chunker';
+
+// Numbered sentences of the same length, so splits are easy to check
+function sentences(count: number, start: number = 1): string {
+	return Array.from({ length: count }, (_, i) => `Sentence ${String(start + i).padStart(3, '0')} ends here.`).join(' ');
+}
+
+describe('chunkMarkdown', () => {
+	it('records the heading path of each section', () => {
+		const paragraph = 'x'.repeat(60);
+		const content = [
+			'# Project',
+			paragraph,
+			'## Goals',
+			paragraph,
+			'```',
+			'# Not a heading',
+			'```',
+			'### Stretch goals',
+			paragraph,
+			'## Risks',
+			paragraph
+		].join('\n');
+
+		const chunks = chunkMarkdown(content, { chunkSize: 100, chunkOverlap: 0 });
+
+		expect(chunks.map(chunk => chunk.headings)).toEqual([
+			['Project'],
+			['Project', 'Goals'],
+			['Project', 'Goals', 'Stretch goals'],
+			['Project', 'Risks']
+		]);
+		expect(chunks[1].text).toBe(`## Goals\n${paragraph}\n\`\`\`\n# Not a heading\n\`\`\``);
+		expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[0, 1], [2, 6], [7, 8], [9, 10]]);
+	});
+
+	it('keeps a tiny section with the next one', () => {
+		const chunks = chunkMarkdown('# Title\nShort.\n## Details\n' + 'y'.repeat(50), { chunkSize: 100, chunkOverlap: 0 });
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0].headings).toEqual(['Title']);
+	});
+
+	it('carries trailing lines into the next chunk as overlap', () => {
+		// Paragraphs of two 21 character lines
+		const paragraphs = Array.from({ length: 8 }, (_, i) => `Paragraph ${i} line one\nParagraph ${i} line two`);
+
+		const chunks = chunkMarkdown(paragraphs.join('\n\n'), { chunkSize: 100, chunkOverlap: 30 });
+
+		expect(chunks.length).toBeGreaterThan(2);
+		for (let i = 1; i < chunks.length; i++) {
+			const previous = chunks[i - 1].text.split('\n');
+			// One line fits in the overlap, two do not
+			expect(chunks[i].startLine).toBe(chunks[i - 1].endLine);
+			expect(chunks[i].text.split('\n')[0]).toBe(previous[previous.length - 1]);
+			expect(chunks[i].text.split('\n')[1]).toBe('');
+		}
+		expect(chunks[chunks.length - 1].text.endsWith('Paragraph 7 line two')).toBe(true);
+	});
+
+	it('leaves out the overlap when it would overfill the next chunk', () => {
+		const lines = Array.from({ length: 12 }, (_, i) => `Line ${String(i).padStart(2, '0')} in the list.`);
+
+		const chunks = chunkMarkdown(lines.join('\n'), { chunkSize: 100, chunkOverlap: 30 });
+
+		// The paragraph is split into pieces that fill a chunk on their own
+		expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[0, 3], [4, 7], [8, 11]]);
+	});
+
+	it('splits an oversized paragraph by line and keeps line numbers', () => {
+		const lines = Array.from({ length: 20 }, (_, i) => `Item ${i}: ${'z'.repeat(20)}`);
+
+		const chunks = chunkMarkdown(['# List', ...lines].join('\n'), { chunkSize: 120, chunkOverlap: 0 }, 10);
+
+		expect(chunks.length).toBeGreaterThan(3);
+		chunks.forEach(chunk => {
+			expect(chunk.text.length).toBeLessThanOrEqual(120);
+			expect(chunk.headings).toEqual(['List']);
+			expect(chunk.text.split('\n')).toHaveLength(chunk.endLine - chunk.startLine + 1);
+		});
+		expect(chunks[0].startLine).toBe(10);
+		expect(chunks[chunks.length - 1].endLine).toBe(30);
+		// Every line lands in exactly one chunk
+		expect(chunks.map(chunk => chunk.text).join('\n')).toBe(['# List', ...lines].join('\n'));
+	});
+
+	it('splits a long line at sentence ends and keeps the heading with the first part', () => {
+		const line = sentences(20);
+
+		const chunks = chunkMarkdown(`# Notes\n${line}`, { chunkSize: 200, chunkOverlap: 0 });
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks[0].text.startsWith('# Notes\nSentence 001')).toBe(true);
+		chunks.forEach(chunk => {
+			expect(chunk.text.length).toBeLessThanOrEqual(200);
+			expect(chunk.text).toMatch(/ends here\.$/);
+			expect([chunk.startLine, chunk.endLine]).toEqual(chunk === chunks[0] ? [0, 1] : [1, 1]);
+		});
+		expect(chunks.map(chunk => chunk.text.replace('# Notes\n', '')).join(' ')).toBe(line);
+	});
+
+	it('cuts text without sentences at a space, or mid-word as a last resort', () => {
+		const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+		const spaced = chunkMarkdown(words, { chunkSize: 100, chunkOverlap: 0 });
+		expect(spaced.every(chunk => /^word\d+( word\d+)*$/.test(chunk.text))).toBe(true);
+		expect(spaced.map(chunk => chunk.text).join(' ')).toBe(words);
+
+		const solid = chunkMarkdown('q'.repeat(250), { chunkSize: 100, chunkOverlap: 0 });
+		expect(solid.map(chunk => chunk.text.length)).toEqual([99, 99, 52]);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ContextItem, buildContext, estimateTokens, stripChunkHeader } from '../src/context-builder';
+import { ChatMessage, buildSystemPrompt } from '../src/provider';
+
+const QUESTION: ChatMessage = { role: 'user', content: 'And now?' };
+
+// A budget leaving the given number of tokens for history and notes together
+function budgetLeaving(tokens: number): number {
+	return estimateTokens(buildSystemPrompt([])) + estimateTokens(QUESTION.content) + tokens;
+}
+
+function item(title: string, chunks: ContextItem['chunks']): ContextItem {
+	return { header: `From "${title}":`, source: { path: `${title}.md`, title, similarity: 1 }, chunks };
+}
+
+describe('buildContext history', () => {
+	it('keeps the newest turns whole, shortens older ones and drops the rest', () => {
+		const history: ChatMessage[] = [
+			{ role: 'user', content: 'y'.repeat(2000) },
+			{ role: 'assistant', content: 'x'.repeat(2000) },
+			{ role: 'user', content: 'Question two?' },
+			{ role: 'assistant', content: 'Answer two' }
+		];
+
+		// 150 tokens of history: both short turns fit, the long answer only shortened
+		const { messages, breakdown } = buildContext([], history.concat([QUESTION]), budgetLeaving(500));
+
+		// The shortened answer would open the history, so it goes too
+		expect(messages).toEqual([history[2], history[3], QUESTION]);
+		expect(breakdown.history).toEqual({
+			tokens: estimateTokens('Question two?') + estimateTokens('Answer two'),
+			kept: 2,
+			shortened: 0,
+			dropped: 2
+		});
+	});
+
+	it('shortens turns that do not fit whole', () => {
+		const history: ChatMessage[] = [
+			{ role: 'user', content: `${'word '.repeat(400)}end` },
+			{ role: 'assistant', content: 'Short answer' }
+		];
+
+		const { messages, breakdown } = buildContext([], history.concat([QUESTION]), budgetLeaving(500));
+
+		expect(messages[0].content).toMatch(/ …\[shortened\]$/);
+		expect(messages.slice(1)).toEqual([history[1], QUESTION]);
+		expect(breakdown.history).toMatchObject({ kept: 1, shortened: 1, dropped: 0 });
+	});
+});
+
+describe('buildContext notes', () => {
+	it('joins overlapping chunks in reading order and skips repeated text', () => {
+		const items = [
+			item('Plan', [
+				{ text: 'line 3\nline 4\nline 5', startLine: 3, endLine: 5 },
+				{ text: 'line 1\nline 2\nline 3', startLine: 1, endLine: 3 },
+				{ text: 'line 9', startLine: 9, endLine: 9 }
+			]),
+			// Embedded in Plan, already in the context
+			item('Part', [{ text: 'line 9', startLine: 0, endLine: 0 }])
+		];
+
+		const { context, sources, breakdown } = buildContext(items, [QUESTION], budgetLeaving(1000));
+
+		expect(context).toEqual(['From "Plan":\nline 1\nline 2\nline 3\nline 4\nline 5\n\n...\n\nline 9']);
+		expect(sources.map(source => source.title)).toEqual(['Plan']);
+		expect(breakdown.notes).toMatchObject({ notes: 1, chunks: 3, duplicates: 1, dropped: 1 });
+	});
+
+	it('truncates the chunk that crosses the budget and drops notes after it', () => {
+		const items = [
+			item('Long', [{ text: 'a'.repeat(4000) }]),
+			item('Next', [{ text: 'More text' }])
+		];
+
+		const { context, breakdown } = buildContext(items, [QUESTION], budgetLeaving(600));
+
+		expect(context).toHaveLength(1);
+		expect(context[0]).toMatch(/ …\[truncated\]$/);
+		expect(breakdown.notes).toMatchObject({ notes: 1, truncated: 1, dropped: 1 });
+	});
+});
+
+describe('stripChunkHeader', () => {
+	it('removes the lines written for the embedding model', () => {
+		expect(stripChunkHeader('Title: Plan\nPath: Work/Plan.md\nSection: Goals\n\nShip it.')).toBe('Ship it.');
+		expect(stripChunkHeader('Ship it.')).toBe('Ship it.');
+	});
+});
@@ -0,0 +1,108 @@
+import { TFile } from 'obsidian';
+import { describe, expect, it } from 'vitest';
+import { ExclusionRules, globToRegExp, parsePatterns } from '../src/exclusions';
+
+interface FakeNote {
+	path: string;
+	tags?: string[];
+	frontmatter?: { [key: string]: any };
+}
+
+function createRules(notes: FakeNote[], settings: { includePatterns?: string, excludePatterns?: string, excludeTag?: string }) {
+	const files = notes.map(note => Object.assign(new TFile(), { path: note.path, extension: note.path.split('.').pop() }));
+	const caches = new Map(notes.map((note, i) => [files[i], {
+		tags: (note.tags || []).map(tag => ({ tag })),
+		frontmatter: note.frontmatter
+	}] as [TFile, any]));
+
+	const app: any = { metadataCache: { getFileCache: (file: TFile) => caches.get(file) || null } };
+	const plugin = { settings: { includePatterns: '', excludePatterns: '', excludeTag: '', ...settings } };
+	const extractors: any = { getFiles: () => files };
+	const rules = new ExclusionRules(app, plugin, extractors);
+
+	const indexable = () => rules.getIndexableFiles().map(file => file.path);
+	const reason = (path: string) => rules.getExclusionReason(files.filter(file => file.path === path)[0]);
+	return { rules, indexable, reason };
+}
+
+describe('globToRegExp', () => {
+	it('matches ** across folders and * within one', () => {
+		expect(globToRegExp('**/*.excalidraw.md').test('Drawings/2024/Plan.excalidraw.md')).toBe(true);
+		expect(globToRegExp('**/*.excalidraw.md').test('Plan.excalidraw.md')).toBe(true);
+		expect(globToRegExp('Journal/**').test('Journal/2024/01/Day.md')).toBe(true);
+		expect(globToRegExp('Journal/*.md').test('Journal/Day.md')).toBe(true);
+		expect(globToRegExp('Journal/*.md').test('Journal/2024/Day.md')).toBe(false);
+		expect(globToRegExp('Projects/**/notes.md').test('Projects/notes.md')).toBe(true);
+	});
+
+	it('treats a trailing slash as the folder contents and ignores case', () => {
+		expect(globToRegExp('/Templates/').test('templates/Daily.md')).toBe(true);
+		expect(globToRegExp('Templates/').test('Templates-old/Daily.md')).toBe(false);
+		expect(globToRegExp('Day-??.md').test('Day-01.md')).toBe(true);
+		expect(globToRegExp('Day-??.md').test('Day-1.md')).toBe(false);
+		expect(globToRegExp('Notes (old)/*.md').test('Notes (old)/a.md')).toBe(true);
+	});
+});
+
+describe('parsePatterns', () => {
+	it('skips blank lines and comments', () => {
+		expect(parsePatterns('Templates/\n\n  # scaffolding\n  Journal/** \n!Journal/Shared/')).toEqual(['Templates/', 'Journal/**', '!Journal/Shared/']);
+		expect(parsePatterns('')).toEqual([]);
+	});
+});
+
+describe('ExclusionRules', () => {
+	const NOTES: FakeNote[] = [
+		{ path: 'Projects/Plan.md' },
+		{ path: 'Templates/Daily.md' },
+		{ path: 'Journal/2024/Day.md' },
+		{ path: 'Journal/Shared/Trip.md' },
+		{ path: 'Journal/Shared/Secret.md', tags: ['#private/health'] },
+		{ path: 'Inbox/Draft.md', frontmatter: { 'ai-index': 'false' } },
+		{ path: 'Inbox/Idea.md', tags: ['#privateer'] }
+	];
+
+	it('excludes folders and takes notes back in with a later negated pattern', () => {
+		const { indexable, reason } = createRules(NOTES, { excludePatterns: 'Templates\nJournal/**\n!Journal/Shared/' });
+
+		// Inbox/Draft.md opts out in its frontmatter
+		expect(indexable()).toEqual(['Projects/Plan.md', 'Journal/Shared/Trip.md', 'Journal/Shared/Secret.md', 'Inbox/Idea.md']);
+		expect(reason('Templates/Daily.md')).toBe('exclude: Templates');
+		expect(reason('Journal/2024/Day.md')).toBe('exclude: Journal/**');
+	});
+
+	it('lets a pattern after the negation exclude again', () => {
+		const { reason } = createRules(NOTES, { excludePatterns: 'Journal/\n!Journal/Shared/\n**/Secret.md' });
+
+		expect(reason('Journal/Shared/Trip.md')).toBeNull();
+		expect(reason('Journal/Shared/Secret.md')).toBe('exclude: **/Secret.md');
+	});
+
+	it('only indexes included notes when there are include patterns', () => {
+		const { indexable, reason } = createRules(NOTES, { includePatterns: 'Projects/\nInbox/*.md' });
+
+		expect(indexable()).toEqual(['Projects/Plan.md', 'Inbox/Idea.md']);
+		expect(reason('Journal/2024/Day.md')).toBe('not included');
+	});
+
+	it('excludes notes with the tag or a tag nested below it', () => {
+		const { indexable, reason } = createRules(NOTES, { excludeTag: '#Private' });
+
+		expect(reason('Journal/Shared/Secret.md')).toBe('#private');
+		expect(reason('Inbox/Idea.md')).toBeNull();
+		expect(reason('Inbox/Draft.md')).toBe('ai-index: false');
+		expect(indexable()).toHaveLength(NOTES.length - 2);
+	});
+
+	it('previews how many notes each rule matches', () => {
+		const { rules } = createRules(NOTES, { excludePatterns: 'Journal/\n!Journal/Shared/', excludeTag: 'private' });
+
+		expect(rules.previewRules()).toEqual([
+			{ label: 'exclude: Journal/', count: 3 },
+			{ label: 'exclude: !Journal/Shared/', count: 2 },
+			{ label: 'ai-index: false', count: 1 },
+			{ label: '#private', count: 1 },
+			{ label: 'indexable notes', count: 4 }
+		]);
+	});
+});
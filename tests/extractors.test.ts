@@ -0,0 +1,127 @@
+import { TFile } from 'obsidian';
+import { describe, expect, it } from 'vitest';
+import { ExtractOptions, imageExtractor, pdfExtractor } from '../src/extractors';
+
+const NO_EXCLUSIONS: ExtractOptions = { isExcluded: () => false };
+
+/**
+ * A PDF with one Helvetica text line per entry on each page, with the
+ * byte offsets a parser needs to find its objects.
+ */
+function buildPdf(pages: string[][]): ArrayBuffer {
+	const objects: string[] = [];
+	const pageIds = pages.map((_, i) => 3 + i * 2);
+	const fontId = 3 + pages.length * 2;
+
+	objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+	objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+	pages.forEach((lines, i) => {
+		const stream = `BT /F1 12 Tf 72 720 Td 14 TL ${lines.map(line => `(${line}) Tj T*`).join(' ')} ET`;
+		objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+		objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+	});
+	objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+	let pdf = '%PDF-1.4\n';
+	const offsets: number[] = [];
+	for (let id = 1; id < objects.length; id++) {
+		offsets[id] = pdf.length;
+		pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+	}
+	const xref = pdf.length;
+	pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+	for (let id = 1; id < objects.length; id++) {
+		pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+	}
+	pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+	return new TextEncoder().encode(pdf).buffer;
+}
+
+function file(path: string): TFile {
+	const name = path.split('/').pop() || path;
+	return Object.assign(new TFile(), {
+		path,
+		basename: name.replace(/\.[^.]+$/, ''),
+		extension: name.split('.').pop(),
+		stat: { mtime: 1000, ctime: 1000, size: 0 }
+	});
+}
+
+/**
+ * Notes embedding images, described by the embeds the metadata cache
+ * would list for them.
+ */
+function fakeVault(notes: { [path: string]: Array<{ link: string, displayText: string }> }, images: string[]) {
+	const files = new Map<string, TFile>();
+	Object.keys(notes).concat(images).forEach(path => files.set(path, file(path)));
+
+	const resolvedLinks: { [path: string]: { [path: string]: number } } = {};
+	Object.keys(notes).forEach(path => {
+		resolvedLinks[path] = {};
+		notes[path].forEach(embed => {
+			const target = images.find(image => image === embed.link || image.endsWith(`/${embed.link}`));
+			if (target) {
+				resolvedLinks[path][target] = (resolvedLinks[path][target] || 0) + 1;
+			}
+		});
+	});
+
+	const app: any = {
+		metadataCache: {
+			resolvedLinks,
+			getFileCache: (note: TFile) => notes[note.path] ? { embeds: notes[note.path] } : null,
+			getFirstLinkpathDest: (link: string) => files.get(images.find(image => image === link || image.endsWith(`/${link}`)) || '') || null
+		},
+		vault: {
+			getAbstractFileByPath: (path: string) => files.get(path) || null
+		}
+	};
+	return { app, files };
+}
+
+describe('pdfExtractor', () => {
+	it('reads the text of every page with the bundled parser', async () => {
+		const data = buildPdf([['Quarterly report', 'Revenue grew'], ['# Appendix']]);
+		const app: any = { vault: { readBinary: async () => data } };
+
+		const content = await pdfExtractor.extract(app, file('Report.pdf'), NO_EXCLUSIONS);
+
+		// A leading '#' in a PDF is not a heading
+		expect(content.text).toBe('Quarterly report\nRevenue grew\n\nAppendix\n');
+		expect(content.pageStarts).toEqual([0, 3]);
+	});
+});
+
+describe('image extractor', () => {
+	const NOTES = {
+		'Offsite.md': [
+			{ link: 'team.png', displayText: 'The team at the offsite|300' },
+			{ link: 'team.png', displayText: '640x480' },
+			{ link: 'Photos/other.png', displayText: 'Photos/other.png' }
+		],
+		'Blog.md': [{ link: 'team.png', displayText: 'Everyone on the beach' }],
+		'Journal.md': [{ link: 'team.png', displayText: 'A private caption' }]
+	};
+
+	it('describes an image with the alt texts of notes that may be indexed', async () => {
+		const { app, files } = fakeVault(NOTES, ['team.png', 'Photos/other.png']);
+		const options: ExtractOptions = { isExcluded: note => note.path === 'Journal.md' };
+
+		const content = await imageExtractor.extract(app, files.get('team.png')!, options);
+
+		expect(content.text).toBe([
+			'# Descriptions',
+			'',
+			'- Everyone on the beach (in Blog)',
+			'- The team at the offsite (in Offsite)'
+		].join('\n'));
+	});
+
+	it('skips images without alt text, as they are not OCRed', async () => {
+		const { app, files } = fakeVault(NOTES, ['team.png', 'Photos/other.png', 'scan.png']);
+
+		// Embedded without alt text, and not embedded at all
+		expect((await imageExtractor.extract(app, files.get('Photos/other.png')!, NO_EXCLUSIONS)).text).toBe('');
+		expect((await imageExtractor.extract(app, files.get('scan.png')!, NO_EXCLUSIONS)).text).toBe('');
+	});
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiService } from '../src/gemini-service';
+
+interface EmbedRequest {
+	content: { parts: Array<{ text: string }> };
+	taskType: string;
+	title?: string;
+}
+
+function httpError(status: number): Error {
+	return Object.assign(new Error(`[${status}] request failed`), { status });
+}
+
+function fakeEmbedding(text: string): number[] {
+	return [text.length, 1];
+}
+
+/**
+ * Stands in for the SDK's embedding model. Failures are queued per batch
+ * call or per text, and texts listed in badTexts are rejected like content
+ * the API refuses.
+ */
+class FakeEmbeddingModel {
+	batchFailures: Error[] = [];
+	singleFailures: { [text: string]: Error[] } = {};
+	badTexts: Set<string> = new Set();
+	batchCalls: EmbedRequest[][] = [];
+	singleCalls: EmbedRequest[] = [];
+
+	async batchEmbedContents({ requests }: { requests: EmbedRequest[] }) {
+		this.batchCalls.push(requests);
+		const failure = this.batchFailures.shift();
+		if (failure) {
+			throw failure;
+		}
+		if (requests.some(request => this.badTexts.has(textOf(request)))) {
+			throw httpError(400);
+		}
+		return { embeddings: requests.map(request => ({ values: fakeEmbedding(textOf(request)) })) };
+	}
+
+	async embedContent(request: EmbedRequest) {
+		this.singleCalls.push(request);
+		const failure = (this.singleFailures[textOf(request)] || []).shift();
+		if (failure) {
+			throw failure;
+		}
+		if (this.badTexts.has(textOf(request))) {
+			throw httpError(400);
+		}
+		return { embedding: { values: fakeEmbedding(textOf(request)) } };
+	}
+}
+
+function textOf(request: EmbedRequest): string {
+	return request.content.parts[0].text;
+}
+
+function createService(model: FakeEmbeddingModel): GeminiService {
+	const service = new GeminiService('test-key', { geminiApiKey: 'test-key', embeddingRequestsPerMinute: 0 });
+	(service as any).embeddingModel = model;
+	return service;
+}
+
+function documents(count: number) {
+	return Array.from({ length: count }, (_, i) => ({ text: `chunk ${i}`, title: `Note ${i}` }));
+}
+
+let model: FakeEmbeddingModel;
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+	vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	model = new FakeEmbeddingModel();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('GeminiService.embedDocuments', () => {
+	it('sends batches of 100 documents with titles', async () => {
+		const embeddings = await createService(model).embedDocuments(documents(150));
+
+		expect(model.batchCalls.map(batch => batch.length)).toEqual([100, 50]);
+		expect(model.batchCalls[0][0]).toMatchObject({ taskType: 'RETRIEVAL_DOCUMENT', title: 'Note 0' });
+		expect(embeddings).toHaveLength(150);
+		expect(embeddings[149]).toEqual(fakeEmbedding('chunk 149'));
+	});
+
+	it('retries a batch after rate limit and server errors with growing delays', async () => {
+		model.batchFailures = [httpError(429), httpError(503)];
+		const start = Date.now();
+
+		const result = createService(model).embedDocuments(documents(3));
+		await vi.runAllTimersAsync();
+		const embeddings = await result;
+
+		expect(model.batchCalls).toHaveLength(3);
+		expect(model.singleCalls).toHaveLength(0);
+		// Jittered backoffs of 1s and 2s, at least half of each
+		expect(Date.now() - start).toBeGreaterThanOrEqual(1500);
+		expect(Date.now() - start).toBeLessThanOrEqual(3000);
+		expect(embeddings).toEqual(documents(3).map(document => fakeEmbedding(document.text)));
+	});
+
+	it('embeds items one by one when a batch is rejected for its content', async () => {
+		model.badTexts.add('chunk 1');
+
+		const result = createService(model).embedDocuments(documents(3));
+		await vi.runAllTimersAsync();
+		const embeddings = await result;
+
+		expect(model.batchCalls).toHaveLength(1);
+		expect(model.singleCalls.map(textOf)).toEqual(['chunk 0', 'chunk 1', 'chunk 2']);
+		expect(embeddings).toEqual([fakeEmbedding('chunk 0'), [], fakeEmbedding('chunk 2')]);
+	});
+
+	it('retries single items and keeps the rest when one fails for good', async () => {
+		model.badTexts.add('chunk 2');
+		// The first item hits a rate limit, the second runs out of retries
+		model.singleFailures = {
+			'chunk 0': [httpError(429)],
+			'chunk 1': Array.from({ length: 6 }, () => httpError(500))
+		};
+
+		const result = createService(model).embedDocuments(documents(4));
+		await vi.runAllTimersAsync();
+		const embeddings = await result;
+
+		expect(embeddings).toEqual([fakeEmbedding('chunk 0'), [], [], fakeEmbedding('chunk 3')]);
+		// chunk 0 twice, chunk 1 six times, then chunk 2 and chunk 3 once each
+		expect(model.singleCalls).toHaveLength(10);
+	});
+
+	it('keeps other batches when one fails after every retry', async () => {
+		model.batchFailures = Array.from({ length: 6 }, () => httpError(500));
+
+		const result = createService(model).embedDocuments(documents(101));
+		await vi.runAllTimersAsync();
+		const embeddings = await result;
+
+		// A server error is not worth a call per item
+		expect(model.singleCalls).toHaveLength(0);
+		expect(embeddings.slice(0, 100).every(embedding => embedding.length === 0)).toBe(true);
+		expect(embeddings[100]).toEqual(fakeEmbedding('chunk 100'));
+	});
+
+	it('does not send empty chunks', async () => {
+		const embeddings = await createService(model).embedDocuments([{ text: 'first' }, { text: '   ' }, { text: 'last' }]);
+
+		expect(model.batchCalls[0].map(textOf)).toEqual(['first', 'last']);
+		expect(embeddings).toEqual([fakeEmbedding('first'), [], fakeEmbedding('last')]);
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from '../src/lexical-index';
+
+function index(docs: { [id: string]: string }): Bm25Index {
+	const bm25 = new Bm25Index();
+	Object.keys(docs).forEach(id => bm25.add(id, docs[id]));
+	return bm25;
+}
+
+describe('tokenize', () => {
+	it('keeps compound tokens whole and adds their parts', () => {
+		expect(tokenize('The fix for PROJ-123 ships in v2.1')).toEqual(['fix', 'proj-123', 'proj', '123', 'ships', 'v2.1', 'v2', '1']);
+	});
+});
+
+describe('Bm25Index', () => {
+	it('ranks notes with the rarer query terms first', () => {
+		const bm25 = index({
+			budget: 'The budget meeting covers the budget for next year',
+			ticket: 'Ticket PROJ-123 blocks the release meeting',
+			notes: 'Meeting notes from the weekly meeting'
+		});
+
+		const results = bm25.search('PROJ-123 meeting', 10);
+
+		// Every note mentions a meeting, only one the ticket
+		expect(results.map(result => result.id)).toEqual(['ticket', 'notes', 'budget']);
+		expect(results[0].score).toBeGreaterThan(2 * results[1].score);
+	});
+
+	it('favours shorter notes with the same term frequency', () => {
+		const bm25 = index({
+			long: `Kubernetes ${'filler words about other things '.repeat(10)}`,
+			short: 'Kubernetes cluster upgrade',
+			other: 'Unrelated note'
+		});
+
+		expect(bm25.search('kubernetes', 10).map(result => result.id)).toEqual(['short', 'long']);
+	});
+
+	it('applies the filter and the limit', () => {
+		const bm25 = index({ a: 'alpha beta', b: 'alpha', c: 'alpha gamma' });
+
+		expect(bm25.search('alpha', 10, id => id !== 'b').map(result => result.id).sort()).toEqual(['a', 'c']);
+		expect(bm25.search('alpha', 1)).toHaveLength(1);
+		expect(bm25.search('the', 10)).toEqual([]);
+	});
+
+	it('forgets removed and replaced documents', () => {
+		const bm25 = index({ a: 'roadmap draft', b: 'roadmap final', c: 'holiday plans' });
+
+		bm25.remove('a');
+		bm25.add('b', 'holiday photos');
+
+		expect(bm25.size()).toBe(2);
+		expect(bm25.search('roadmap', 10)).toEqual([]);
+		expect(bm25.search('holiday', 10).map(result => result.id).sort()).toEqual(['b', 'c']);
+		// Scores match a fresh index over the same documents
+		expect(bm25.search('photos holiday', 10)).toEqual(index({ b: 'holiday photos', c: 'holiday plans' }).search('photos holiday', 10));
+	});
+
+	it('is empty after clear', () => {
+		const bm25 = index({ a: 'alpha' });
+
+		bm25.clear();
+
+		expect(bm25.size()).toBe(0);
+		expect(bm25.search('alpha', 10)).toEqual([]);
+	});
+});
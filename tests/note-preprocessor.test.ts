@@ -0,0 +1,217 @@
+import { TFile } from 'obsidian';
+import { describe, expect, it } from 'vitest';
+import { chunkMarkdown } from '../src/chunker';
+import { PreprocessOptions, findEmbeddingNotes, preprocessChunk, preprocessMarkdown, readNoteStructure } from '../src/note-preprocessor';
+
+type SectionRange = [string, number, number]; // Type, first and last line
+
+function loc(text: string, offset: number) {
+	const before = text.substring(0, offset).split('\n');
+	return { line: before.length - 1, col: before[before.length - 1].length, offset };
+}
+
+function lineStart(text: string, line: number): number {
+	return text.split('\n').slice(0, line).reduce((sum, content) => sum + content.length + 1, 0);
+}
+
+/**
+ * What the metadata cache holds for a note: the given sections, the
+ * headings, and every link and embed outside code.
+ */
+function buildCache(text: string, sections: SectionRange[]) {
+	const lines = text.split('\n');
+	const inCode = (line: number) => sections.some(([type, start, end]) => type === 'code' && line >= start && line <= end);
+
+	const links: any[] = [];
+	const embeds: any[] = [];
+	const pattern = /!?\[\[(?:[^\]]|\\\|)+\]\]/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const start = loc(text, match.index);
+		const beforeOnLine = lines[start.line].substring(0, start.col);
+		if (inCode(start.line) || (beforeOnLine.split('`').length - 1) % 2 === 1) {
+			continue;
+		}
+		const link = match[0].replace(/^!?\[\[/, '').replace(/\]\]$/, '').split(/\\?\|/)[0];
+		const item = { link, original: match[0], position: { start, end: loc(text, match.index + match[0].length) } };
+		(match[0].startsWith('!') ? embeds : links).push(item);
+	}
+
+	const headings: any[] = [];
+	lines.forEach((content, line) => {
+		const heading = content.match(/^(#+)\s+(.*)$/);
+		if (heading && !inCode(line)) {
+			const start = lineStart(text, line);
+			headings.push({ heading: heading[2], level: heading[1].length, position: { start: loc(text, start), end: loc(text, start + content.length) } });
+		}
+	});
+
+	return {
+		links,
+		embeds,
+		headings,
+		sections: sections.map(([type, startLine, endLine]) => ({
+			type,
+			position: {
+				start: loc(text, lineStart(text, startLine)),
+				end: loc(text, lineStart(text, endLine) + lines[endLine].length)
+			}
+		}))
+	};
+}
+
+function fakeVault(notes: { [path: string]: { text: string, sections: SectionRange[] } }) {
+	const files: { [path: string]: TFile } = {};
+	const caches: { [path: string]: any } = {};
+	const resolvedLinks: { [path: string]: { [path: string]: number } } = {};
+	Object.keys(notes).forEach(path => {
+		files[path] = Object.assign(new TFile(), { path, extension: 'md', basename: path.replace(/\.md$/, '') });
+		caches[path] = buildCache(notes[path].text, notes[path].sections);
+	});
+	Object.keys(notes).forEach(path => {
+		resolvedLinks[path] = {};
+		caches[path].links.concat(caches[path].embeds).forEach((item: any) => {
+			const target = `${item.link.split('#')[0]}.md`;
+			if (files[target]) {
+				resolvedLinks[path][target] = (resolvedLinks[path][target] || 0) + 1;
+			}
+		});
+	});
+
+	const app: any = {
+		metadataCache: {
+			resolvedLinks,
+			getFileCache: (file: TFile) => caches[file.path] || null,
+			getFirstLinkpathDest: (path: string) => files[`${path}.md`] || null
+		},
+		vault: {
+			getAbstractFileByPath: (path: string) => files[path] || null,
+			cachedRead: async (file: TFile) => notes[file.path].text
+		}
+	};
+	return { app, files, caches };
+}
+
+function options(inlineEmbeds: boolean, excluded: string[] = []): PreprocessOptions {
+	return { inlineEmbeds, isExcluded: file => excluded.indexOf(file.path) !== -1 };
+}
+
+const NOTE = [
+	'# Team',                                      // 0
+	'',                                            // 1
+	'> [!note] Who is who',                        // 2
+	'> Ask [[People/Alice|Alice]] first.',         // 3
+	'',                                            // 4
+	'| Name | Page |',                             // 5
+	'| --- | --- |',                               // 6
+	'| Alice | [[People/Alice\\|Alice]] |',        // 7
+	'| Bob | [[Bob#Role]] |',                      // 8
+	'',                                            // 9
+	'```',                                         // 10
+	'const link = "[[Not a link]]";',              // 11
+	'```',                                         // 12
+	'',                                            // 13
+	'Use `[[literal]]` for links. ![[Roles#Lead]]' // 14
+].join('\n');
+
+const NOTE_SECTIONS: SectionRange[] = [
+	['heading', 0, 0],
+	['callout', 2, 3],
+	['table', 5, 8],
+	['code', 10, 12],
+	['paragraph', 14, 14]
+];
+
+const ROLES = [
+	'# Lead',
+	'Sets the **plan**, see [[Bob]].',
+	'# Other',
+	'Not embedded.'
+].join('\n');
+
+function setUp() {
+	return fakeVault({
+		'Team.md': { text: NOTE, sections: NOTE_SECTIONS },
+		'Roles.md': { text: ROLES, sections: [['heading', 0, 0], ['paragraph', 1, 1], ['heading', 2, 2], ['paragraph', 3, 3]] },
+		'Bob.md': { text: 'Bob', sections: [['paragraph', 0, 0]] }
+	});
+}
+
+describe('preprocessChunk', () => {
+	it('converts sections and links where the metadata cache puts them', async () => {
+		const { app, files } = setUp();
+		const structure = readNoteStructure(app, files['Team.md'], NOTE);
+		const [chunk] = chunkMarkdown(NOTE, { chunkSize: 2000, chunkOverlap: 0 });
+
+		const text = await preprocessChunk(app, files['Team.md'], structure, chunk, options(false));
+
+		expect(text).toBe([
+			'Team',
+			'Note: Who is who',
+			'Ask Alice first.',
+			'',
+			'Name: Alice; Page: Alice',
+			'Name: Bob; Page: Bob > Role',
+			'',
+			'[code block]',
+			'',
+			'Use [inline code] for links. [embedded: Roles]'
+		].join('\n'));
+	});
+
+	it('pairs table rows with headers from an earlier chunk', async () => {
+		const { app, files } = setUp();
+		const structure = readNoteStructure(app, files['Team.md'], NOTE);
+		const chunk = { text: '| Bob | [[Bob#Role]] |', headings: ['Team'], startLine: 8, endLine: 8 };
+
+		expect(await preprocessChunk(app, files['Team.md'], structure, chunk, options(false)))
+			.toBe('Name: Bob; Page: Bob > Role');
+		// Without the cache the header is lost
+		expect(preprocessMarkdown(chunk.text)).toBe('Bob, Bob > Role');
+	});
+
+	it('inlines embedded sections preprocessed with their own structure', async () => {
+		const { app, files } = setUp();
+		const structure = readNoteStructure(app, files['Team.md'], NOTE);
+		const chunk = { text: NOTE.split('\n')[14], headings: ['Team'], startLine: 14, endLine: 14 };
+
+		expect(await preprocessChunk(app, files['Team.md'], structure, chunk, options(true)))
+			.toBe('Use [inline code] for links. Lead\nSets the plan, see Bob.');
+	});
+
+	it('falls back to the text when the cache is stale', async () => {
+		const { app, files } = setUp();
+		const edited = NOTE.replace('Ask [[People/Alice|Alice]]', 'Ask [[People/Carol|Carol]]');
+
+		expect(readNoteStructure(app, files['Team.md'], edited)).toBeNull();
+
+		const chunk = { text: '> Ask [[People/Carol|Carol]] first.', headings: [], startLine: 3, endLine: 3 };
+		expect(await preprocessChunk(app, files['Team.md'], null, chunk, options(false))).toBe('Ask Carol first.');
+	});
+
+	it('does not inline excluded notes', async () => {
+		const { app, files } = setUp();
+		const structure = readNoteStructure(app, files['Team.md'], NOTE);
+		const chunk = { text: NOTE.split('\n')[14], headings: ['Team'], startLine: 14, endLine: 14 };
+
+		expect(await preprocessChunk(app, files['Team.md'], structure, chunk, options(true, ['Roles.md'])))
+			.toBe('Use [inline code] for links. [embedded: excluded note]');
+		// Also without the cache, e.g. for canvas file cards
+		expect(await preprocessChunk(app, files['Team.md'], null, chunk, options(true, ['Roles.md'])))
+			.toBe('Use [inline code] for links. [embedded: excluded note]');
+	});
+});
+
+describe('findEmbeddingNotes', () => {
+	it('finds notes embedding a note directly or through another embed', () => {
+		const { app, files } = fakeVault({
+			'Index.md': { text: '![[Team]]', sections: [['paragraph', 0, 0]] },
+			'Team.md': { text: 'See ![[Roles#Lead]] and [[Other]].', sections: [['paragraph', 0, 0]] },
+			'Other.md': { text: 'Links to [[Roles]] only.', sections: [['paragraph', 0, 0]] },
+			'Roles.md': { text: '# Lead', sections: [['heading', 0, 0]] }
+		});
+
+		expect(findEmbeddingNotes(app, files['Roles.md']).map(file => file.path).sort()).toEqual(['Index.md', 'Team.md']);
+		expect(findEmbeddingNotes(app, files['Other.md'])).toEqual([]);
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * The parts of the Obsidian API the tested modules use at runtime, with
+ * just enough behaviour for the tests.
+ * requestUrl is backed by fetch, so requests reach local test servers.
+ * It keeps the fetch of load time: like Obsidian's, it works when tests
+ * replace the global fetch to act as a request blocked by CORS.
+ */
+export interface RequestUrlParam {
+	url: string;
+	method?: string;
+	contentType?: string;
+	headers?: Record<string, string>;
+	body?: string;
+	throw?: boolean;
+}
+
+const nativeFetch = globalThis.fetch;
+
+export async function requestUrl(request: RequestUrlParam) {
+	const response = await nativeFetch(request.url, {
+		method: request.method || 'GET',
+		headers: { ...(request.contentType ? { 'Content-Type': request.contentType } : {}), ...request.headers },
+		body: request.body
+	});
+	const text = await response.text();
+	if (request.throw !== false && response.status >= 400) {
+		throw new Error(`Request failed, status ${response.status}`);
+	}
+
+	let json: any = null;
+	try {
+		json = JSON.parse(text);
+	} catch (e) {
+		// Not JSON, leave it null like Obsidian does for text responses
+	}
+	return { status: response.status, text, json };
+}
+
+export function parseLinktext(linktext: string): { path: string, subpath: string } {
+	const hash = linktext.indexOf('#');
+	return hash === -1
+		? { path: linktext, subpath: '' }
+		: { path: linktext.substring(0, hash), subpath: linktext.substring(hash) };
+}
+
+// Headings only: from the heading to the next one of the same or a higher level
+export function resolveSubpath(cache: any, subpath: string) {
+	const headings: any[] = cache.headings || [];
+	const index = headings.findIndex(heading => `#${heading.heading}` === subpath);
+	if (index === -1) {
+		return null;
+	}
+	const next = headings.slice(index + 1).find(heading => heading.level <= headings[index].level);
+	return { type: 'heading', current: headings[index], start: headings[index].position.start, end: next ? next.position.start : null };
+}
+
+export function getAllTags(cache: any): string[] | null {
+	return (cache.tags || []).map((tag: any) => tag.tag);
+}
+
+export function parseFrontMatterAliases(frontmatter: any): string[] | null {
+	return frontmatter && frontmatter.aliases ? [].concat(frontmatter.aliases) : null;
+}
+
+export class TFile {
+	path: string = '';
+	basename: string = '';
+	extension: string = '';
+}
+
+/**
+ * Not part of the API: an in-memory vault adapter for tests to hand to the
+ * modules they create. Folders exist once something is written into them.
+ */
+export class MemoryAdapter {
+	files: Map<string, string | ArrayBuffer> = new Map();
+
+	async exists(path: string): Promise<boolean> {
+		return this.files.has(path) || Array.from(this.files.keys()).some(file => file.startsWith(`${path}/`));
+	}
+
+	async read(path: string): Promise<string> {
+		const data = this.files.get(path);
+		if (typeof data !== 'string') {
+			throw new Error(`No text file at ${path}`);
+		}
+		return data;
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		const data = this.files.get(path);
+		if (!(data instanceof ArrayBuffer)) {
+			throw new Error(`No binary file at ${path}`);
+		}
+		return data.slice(0);
+	}
+
+	async write(path: string, data: string) {
+		this.files.set(path, data);
+	}
+
+	async writeBinary(path: string, data: ArrayBuffer) {
+		this.files.set(path, data.slice(0));
+	}
+
+	async remove(path: string) {
+		this.files.delete(path);
+	}
+
+	async mkdir(path: string) {
+		// Folders are implied by the files in them
+	}
+
+	async list(path: string): Promise<{ files: string[], folders: string[] }> {
+		const files = Array.from(this.files.keys()).filter(file => file.startsWith(`${path}/`) && file.indexOf('/', path.length + 1) === -1);
+		return { files, folders: [] };
+	}
+}
@@ -0,0 +1,302 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { OllamaService } from '../src/ollama-service';
+import { OpenAIService } from '../src/openai-service';
+import { postJson, streamLines } from '../src/provider';
+
+interface RecordedRequest {
+	path: string;
+	headers: IncomingMessage['headers'];
+	body: any;
+}
+
+type Handler = (request: RecordedRequest, response: ServerResponse) => void;
+
+/**
+ * A local HTTP server standing in for the provider APIs. Each test sets
+ * the handlers for the paths it calls and reads back what was sent.
+ */
+let server: Server;
+let baseUrl: string;
+let handlers: { [path: string]: Handler } = {};
+let requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		let data = '';
+		req.on('data', chunk => data += chunk);
+		req.on('end', () => {
+			const request: RecordedRequest = { path: req.url || '', headers: req.headers, body: data ? JSON.parse(data) : null };
+			requests.push(request);
+			const handler = handlers[request.path];
+			if (handler) {
+				handler(request, res);
+			} else {
+				sendJson(res, 404, { error: `No handler for ${request.path}` });
+			}
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+	handlers = {};
+	requests = [];
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});
+
+function sendJson(res: ServerResponse, status: number, body: any) {
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(body));
+}
+
+// Writes the lines in separate packets, split mid-line, like a real stream
+function sendStream(res: ServerResponse, contentType: string, lines: string[]) {
+	res.writeHead(200, { 'Content-Type': contentType });
+	const text = lines.join('\n') + '\n';
+	const middle = Math.floor(text.length / 2);
+	res.write(text.substring(0, middle));
+	setTimeout(() => res.end(text.substring(middle)), 10);
+}
+
+// What fetch does when the app origin is not allowed
+function blockFetch() {
+	vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new TypeError('Failed to fetch'))));
+}
+
+function quietConsole() {
+	vi.spyOn(console, 'error').mockImplementation(() => undefined);
+}
+
+describe('postJson and streamLines', () => {
+	it('sends JSON and returns the parsed response', async () => {
+		handlers['/echo'] = (request, res) => sendJson(res, 200, { received: request.body });
+
+		const response = await postJson(`${baseUrl}/echo`, { a: 1 }, { 'X-Test': 'yes' });
+
+		expect(response).toEqual({ received: { a: 1 } });
+		expect(requests[0].headers['content-type']).toBe('application/json');
+		expect(requests[0].headers['x-test']).toBe('yes');
+	});
+
+	it('reports the error message of failed requests', async () => {
+		handlers['/fail'] = (_, res) => sendJson(res, 401, { error: { message: 'Invalid API key' } });
+		handlers['/text'] = (_, res) => { res.writeHead(502); res.end('Bad gateway'); };
+
+		await expect(postJson(`${baseUrl}/fail`, {})).rejects.toThrow('HTTP 401: Invalid API key');
+		await expect(postJson(`${baseUrl}/text`, {})).rejects.toThrow('HTTP 502: Bad gateway');
+	});
+
+	it('passes whole lines of a stream split across packets', async () => {
+		handlers['/stream'] = (_, res) => sendStream(res, 'text/plain', ['first line', '', 'second line', 'third']);
+		const lines: string[] = [];
+
+		await streamLines(`${baseUrl}/stream`, {}, {}, line => lines.push(line));
+
+		expect(lines).toEqual(['first line', 'second line', 'third']);
+	});
+
+	it('rejects with the HTTP status of a failed stream', async () => {
+		handlers['/stream'] = (_, res) => sendJson(res, 500, { error: 'model not loaded' });
+
+		await expect(streamLines(`${baseUrl}/stream`, {}, {}, () => undefined)).rejects.toThrow('HTTP 500: model not loaded');
+	});
+});
+
+describe('OpenAIService', () => {
+	const createService = () => new OpenAIService({
+		openaiBaseUrl: `${baseUrl}/v1/`,
+		openaiApiKey: 'sk-test',
+		openaiEmbeddingModel: 'text-embedding-3-small',
+		openaiChatModel: 'gpt-4o-mini',
+		temperature: 0.2
+	});
+
+	it('embeds documents in batches and orders results by index', async () => {
+		handlers['/v1/embeddings'] = (request, res) => {
+			// Answer in reverse order, results must follow the index field
+			const data = request.body.input.map((text: string, index: number) => ({ index, embedding: [text.length, index] }));
+			sendJson(res, 200, { data: data.reverse() });
+		};
+		const documents = Array.from({ length: 40 }, (_, i) => ({ text: `note ${i}` }));
+
+		const embeddings = await createService().embedDocuments(documents);
+
+		expect(requests.map(request => request.body.input.length)).toEqual([32, 8]);
+		expect(requests[0].body.model).toBe('text-embedding-3-small');
+		expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+		expect(embeddings).toHaveLength(40);
+		expect(embeddings[0]).toEqual([6, 0]);
+		expect(embeddings[39]).toEqual([7, 7]);
+	});
+
+	it('does not send empty texts', async () => {
+		handlers['/v1/embeddings'] = (request, res) => sendJson(res, 200, {
+			data: request.body.input.map((text: string, index: number) => ({ index, embedding: [text.length] }))
+		});
+
+		const embeddings = await createService().embedDocuments([{ text: 'note' }, { text: '  ' }, { text: 'plan' }]);
+
+		expect(requests[0].body.input).toEqual(['note', 'plan']);
+		expect(embeddings).toEqual([[4], [], [4]]);
+	});
+
+	it('keeps the other batches when one fails', async () => {
+		quietConsole();
+		let calls = 0;
+		handlers['/v1/embeddings'] = (request, res) => {
+			if (calls++ === 0) {
+				sendJson(res, 500, { error: { message: 'overloaded' } });
+				return;
+			}
+			sendJson(res, 200, { data: request.body.input.map((_: string, index: number) => ({ index, embedding: [1] })) });
+		};
+		const documents = Array.from({ length: 33 }, (_, i) => ({ text: `note ${i}` }));
+
+		const embeddings = await createService().embedDocuments(documents);
+
+		expect(embeddings.slice(0, 32).every(embedding => embedding.length === 0)).toBe(true);
+		expect(embeddings[32]).toEqual([1]);
+	});
+
+	it('embeds a query', async () => {
+		handlers['/v1/embeddings'] = (_, res) => sendJson(res, 200, { data: [{ index: 0, embedding: [0.1, 0.2] }] });
+
+		expect(await createService().embedQuery('  what is due?  ')).toEqual([0.1, 0.2]);
+		expect(requests[0].body.input).toEqual(['what is due?']);
+	});
+
+	it('chats with the notes as a system message', async () => {
+		handlers['/v1/chat/completions'] = (_, res) => sendJson(res, 200, { choices: [{ message: { content: 'The answer' } }] });
+
+		const answer = await createService().chat([{ role: 'user', content: 'Question?' }], ['Note text']);
+
+		expect(answer).toBe('The answer');
+		const body = requests[0].body;
+		expect(body).toMatchObject({ model: 'gpt-4o-mini', temperature: 0.2, stream: false });
+		expect(body.messages[0].role).toBe('system');
+		expect(body.messages[0].content).toContain('[Note 1]: Note text');
+		expect(body.messages[1]).toEqual({ role: 'user', content: 'Question?' });
+	});
+
+	it('streams server-sent events', async () => {
+		handlers['/v1/chat/completions'] = (_, res) => sendStream(res, 'text/event-stream', [
+			'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+			'',
+			'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+			'',
+			'data: {"choices":[{"delta":{"content":"lo"}}]}',
+			'',
+			'data: [DONE]'
+		]);
+		const tokens: string[] = [];
+
+		const answer = await createService().streamChat([{ role: 'user', content: 'Hi' }], [], token => tokens.push(token));
+
+		expect(answer).toBe('Hello');
+		expect(tokens).toEqual(['Hel', 'lo']);
+		expect(requests[0].body.stream).toBe(true);
+	});
+
+	it('falls back to a single response when streaming is blocked', async () => {
+		blockFetch();
+		handlers['/v1/chat/completions'] = (request, res) => sendJson(res, 200, {
+			choices: [{ message: { content: request.body.stream ? 'streamed' : 'In one piece' } }]
+		});
+		const tokens: string[] = [];
+
+		const answer = await createService().streamChat([{ role: 'user', content: 'Hi' }], [], token => tokens.push(token));
+
+		expect(answer).toBe('In one piece');
+		expect(tokens).toEqual(['In one piece']);
+		expect(requests).toHaveLength(1);
+	});
+
+	it('does not fall back on HTTP errors', async () => {
+		quietConsole();
+		handlers['/v1/chat/completions'] = (_, res) => sendJson(res, 429, { error: { message: 'Rate limit reached' } });
+
+		await expect(createService().streamChat([{ role: 'user', content: 'Hi' }], [], () => undefined))
+			.rejects.toThrow('Chat failed: HTTP 429: Rate limit reached');
+		expect(requests).toHaveLength(1);
+	});
+});
+
+describe('OllamaService', () => {
+	const createService = () => new OllamaService({
+		ollamaBaseUrl: baseUrl,
+		ollamaEmbeddingModel: 'nomic-embed-text',
+		ollamaChatModel: 'llama3.2'
+	});
+
+	it('embeds documents in batches of eight', async () => {
+		handlers['/api/embed'] = (request, res) => sendJson(res, 200, {
+			embeddings: request.body.input.map((text: string) => [text.length])
+		});
+		const documents = Array.from({ length: 10 }, (_, i) => ({ text: 'x'.repeat(i + 1) }));
+
+		const embeddings = await createService().embedDocuments(documents);
+
+		expect(requests.map(request => request.body.input.length)).toEqual([8, 2]);
+		expect(requests[0].body.model).toBe('nomic-embed-text');
+		expect(embeddings.map(embedding => embedding[0])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+	});
+
+	it('fills missing embeddings with empty arrays', async () => {
+		handlers['/api/embed'] = (_, res) => sendJson(res, 200, { embeddings: [[1, 2]] });
+
+		const embeddings = await createService().embedDocuments([{ text: 'a' }, { text: 'b' }]);
+
+		expect(embeddings).toEqual([[1, 2], []]);
+	});
+
+	it('chats without streaming', async () => {
+		handlers['/api/chat'] = (_, res) => sendJson(res, 200, { message: { role: 'assistant', content: 'Local answer' }, done: true });
+
+		const answer = await createService().chat([{ role: 'user', content: 'Question?' }], []);
+
+		expect(answer).toBe('Local answer');
+		expect(requests[0].body).toMatchObject({ model: 'llama3.2', stream: false, options: { temperature: 0.7 } });
+	});
+
+	it('streams newline-delimited JSON', async () => {
+		handlers['/api/chat'] = (_, res) => sendStream(res, 'application/x-ndjson', [
+			'{"message":{"role":"assistant","content":"Local"},"done":false}',
+			'{"message":{"role":"assistant","content":" answer"},"done":false}',
+			'{"message":{"role":"assistant","content":""},"done":true}'
+		]);
+		const tokens: string[] = [];
+
+		const answer = await createService().streamChat([{ role: 'user', content: 'Hi' }], [], token => tokens.push(token));
+
+		expect(answer).toBe('Local answer');
+		expect(tokens).toEqual(['Local', ' answer']);
+	});
+
+	it('reports errors sent inside the stream', async () => {
+		quietConsole();
+		handlers['/api/chat'] = (_, res) => sendStream(res, 'application/x-ndjson', ['{"error":"model \\"llama3.2\\" not found"}']);
+
+		await expect(createService().streamChat([{ role: 'user', content: 'Hi' }], [], () => undefined))
+			.rejects.toThrow('Chat failed: model "llama3.2" not found');
+	});
+
+	it('falls back to a single response when the origin is not allowed', async () => {
+		blockFetch();
+		handlers['/api/chat'] = (_, res) => sendJson(res, 200, { message: { content: 'In one piece' }, done: true });
+		const tokens: string[] = [];
+
+		const answer = await createService().streamChat([{ role: 'user', content: 'Hi' }], [], token => tokens.push(token));
+
+		expect(answer).toBe('In one piece');
+		expect(tokens).toEqual(['In one piece']);
+		expect(requests[0].body.stream).toBe(false);
+	});
+});
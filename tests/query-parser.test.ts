@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery } from '../src/query-parser';
+
+describe('parseQuery', () => {
+	it('splits tag filters into any, all and none', () => {
+		const { text, filter } = parseQuery('pricing tag:#meeting +tag:#2026 -tag:#secret');
+		expect(text).toBe('pricing');
+		expect(filter).toEqual({ tagsAny: ['meeting'], tagsAll: ['2026'], tagsNone: ['secret'] });
+	});
+
+	it('ignores trailing punctuation of unquoted values', () => {
+		expect(parseQuery('what about tag:#alpha?').filter).toEqual({ tagsAny: ['alpha'] });
+		expect(parseQuery('notes in folder:Work/Projects, please').filter).toEqual({ includePaths: ['Work/Projects'] });
+		expect(parseQuery('tag:"odd tag?"').filter).toEqual({ tagsAny: ['odd tag?'] });
+	});
+
+	it('leaves excluding since, until and prop tokens in the question', () => {
+		const { text, filter } = parseQuery('budget -since:2w -prop:status=done -folder:Archive');
+		expect(text).toBe('budget -since:2w -prop:status=done');
+		expect(filter).toEqual({ excludePaths: ['Archive'] });
+	});
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, getRetryDelay, isRetryableError, withRetry } from '../src/rate-limiter';
+
+const OPTIONS = { retries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+// Errors shaped like the ones the Gemini SDK throws
+function httpError(status: number, errorDetails?: any[]): Error {
+	return Object.assign(new Error(`[${status}] request failed`), { status, errorDetails });
+}
+
+/**
+ * A function failing with the given errors before it succeeds, which
+ * records the (fake) time of every call.
+ */
+function failing(errors: Error[]) {
+	const calls: number[] = [];
+	const fn = vi.fn(async () => {
+		calls.push(Date.now());
+		const error = errors[calls.length - 1];
+		if (error) {
+			throw error;
+		}
+		return 'ok';
+	});
+	return { fn, calls };
+}
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.setSystemTime(0);
+	vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+	it('backs off exponentially on rate limit and server errors', async () => {
+		// No jitter, the delay is the full backoff
+		vi.spyOn(Math, 'random').mockReturnValue(1);
+		const { fn, calls } = failing([httpError(429), httpError(503), httpError(500)]);
+
+		const result = withRetry(fn, OPTIONS);
+		await vi.runAllTimersAsync();
+
+		expect(await result).toBe('ok');
+		expect(calls).toEqual([0, 1000, 3000, 7000]);
+	});
+
+	it('waits at least half the backoff with jitter and at most the maximum', async () => {
+		vi.spyOn(Math, 'random').mockReturnValue(0);
+		const { fn, calls } = failing([httpError(429), httpError(429), httpError(429)]);
+
+		const result = withRetry(fn, { retries: 3, baseDelayMs: 4000, maxDelayMs: 5000 });
+		await vi.runAllTimersAsync();
+
+		await result;
+		// Backoffs of 4000, 5000 and 5000 ms, halved
+		expect(calls).toEqual([0, 2000, 4500, 7000]);
+	});
+
+	it('honours the retry delay the server asks for', async () => {
+		vi.spyOn(Math, 'random').mockReturnValue(1);
+		const { fn, calls } = failing([
+			httpError(429, [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '3s' }]),
+			new Error('[429 Too Many Requests] Quota exceeded. Please retry in 30.5s.')
+		]);
+
+		const result = withRetry(fn, OPTIONS);
+		await vi.runAllTimersAsync();
+
+		await result;
+		// 3s is longer than the first backoff, 30.5s is capped at the maximum
+		expect(calls).toEqual([0, 3000, 8000]);
+	});
+
+	it('gives up after the last retry', async () => {
+		const { fn } = failing([httpError(500), httpError(500), httpError(500), httpError(500)]);
+
+		const result = withRetry(fn, OPTIONS);
+		const assertion = expect(result).rejects.toThrow('[500] request failed');
+		await vi.runAllTimersAsync();
+
+		await assertion;
+		expect(fn).toHaveBeenCalledTimes(4);
+	});
+
+	it('does not retry client errors', async () => {
+		const { fn } = failing([httpError(400)]);
+
+		await expect(withRetry(fn, OPTIONS)).rejects.toThrow('[400] request failed');
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('isRetryableError and getRetryDelay', () => {
+	it('reads the status from the error or its message', () => {
+		expect(isRetryableError(httpError(429))).toBe(true);
+		expect(isRetryableError(httpError(502))).toBe(true);
+		expect(isRetryableError(httpError(403))).toBe(false);
+		expect(isRetryableError(new Error('[503 Service Unavailable] overloaded'))).toBe(true);
+		expect(isRetryableError(new Error('Network down'))).toBe(false);
+	});
+
+	it('reads the delay from RetryInfo details or the message', () => {
+		expect(getRetryDelay(httpError(429, [{ retryDelay: '12s' }]))).toBe(12000);
+		expect(getRetryDelay(new Error('Please retry in 1.5s'))).toBe(1500);
+		expect(getRetryDelay(httpError(429))).toBeNull();
+	});
+});
+
+describe('RateLimiter', () => {
+	it('lets at most the limit through in any minute', async () => {
+		const limiter = new RateLimiter(2);
+		const acquired: number[] = [];
+		const acquire = () => limiter.acquire().then(() => acquired.push(Date.now()));
+
+		await acquire();
+		vi.setSystemTime(10000);
+		const rest = Promise.all([acquire(), acquire(), acquire()]);
+		await vi.runAllTimersAsync();
+		await rest;
+
+		// The third slot opens when the first one leaves the window
+		expect(acquired).toEqual([0, 10000, 60000, 70000]);
+	});
+
+	it('does not wait without a limit', async () => {
+		const limiter = new RateLimiter(0);
+
+		await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+		expect(vi.getTimerCount()).toBe(0);
+	});
+});
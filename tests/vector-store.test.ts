@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VectorEntry } from '../src/vector-db';
+import { VectorStore } from '../src/vector-store';
+import { MemoryAdapter } from './obsidian-mock';
+
+const DIR = 'plugin/index';
+const LEGACY_PATH = 'plugin/vectors.json';
+
+// Embeddings are exact in Float32, so they survive the round trip unchanged
+function entry(path: string, index: number, embedding: number[]): VectorEntry {
+	return {
+		id: `${path}#${index}`,
+		path,
+		embedding,
+		content: `Chunk ${index} of ${path}`,
+		title: path.replace(/\.md$/, ''),
+		modified: 1700000000000,
+		tags: ['project'],
+		headings: ['Goals'],
+		startLine: index * 10,
+		endLine: index * 10 + 9,
+		contentHash: `hash${index}`,
+		embeddingModel: 'text-embedding-004',
+		preprocessingVersion: 2
+	};
+}
+
+const ENTRIES = [
+	entry('Projects/Plan.md', 0, [0.5, -0.25, 1]),
+	entry('Projects/Plan.md', 1, [0.125, 0, -1]),
+	entry('Daily/2024-01-01.md', 0, [2, 4, 8]),
+	entry('Report.pdf', 0, [-0.5, 0.75, 0.0625])
+];
+
+function createStore(adapter: MemoryAdapter): VectorStore {
+	return new VectorStore({ vault: { adapter } } as any, DIR, LEGACY_PATH);
+}
+
+function byId(entries: VectorEntry[]): VectorEntry[] {
+	return entries.slice().sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function binFiles(adapter: MemoryAdapter): string[] {
+	return Array.from(adapter.files.keys()).filter(path => path.endsWith('.bin'));
+}
+
+let adapter: MemoryAdapter;
+
+beforeEach(() => {
+	adapter = new MemoryAdapter();
+	vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('VectorStore', () => {
+	it('loads what it saved', async () => {
+		const store = createStore(adapter);
+		store.markAllDirty();
+		await store.save(ENTRIES);
+
+		const loaded = await createStore(adapter).load();
+
+		expect(loaded.migrated).toBe(false);
+		expect(loaded.lastUpdated).not.toBeNull();
+		expect(byId(loaded.entries)).toEqual(byId(ENTRIES));
+	});
+
+	it('rewrites only the shards of changed notes', async () => {
+		const store = createStore(adapter);
+		store.markAllDirty();
+		await store.save(ENTRIES);
+		expect(store.hasChanges()).toBe(false);
+		const before = binFiles(adapter);
+
+		// A later save in the same test gets a new .bin name
+		vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+		const changed = entry('Projects/Plan.md', 0, [1, 1, 1]);
+		store.markDirty(changed.path);
+		await store.save([changed].concat(ENTRIES.slice(1)));
+
+		const after = binFiles(adapter);
+		expect(after).toHaveLength(before.length);
+		expect(after.filter(path => before.indexOf(path) === -1)).toHaveLength(1);
+		const loaded = await createStore(adapter).load();
+		expect(byId(loaded.entries)).toEqual(byId([changed].concat(ENTRIES.slice(1))));
+	});
+
+	it('migrates the version 1 vectors.json', async () => {
+		await adapter.write(LEGACY_PATH, JSON.stringify({
+			version: '1.0.0',
+			lastUpdated: '2024-01-01T00:00:00.000Z',
+			vectors: ENTRIES
+		}, null, 2));
+		const store = createStore(adapter);
+
+		const loaded = await store.load();
+
+		expect(loaded).toEqual({ entries: ENTRIES, lastUpdated: '2024-01-01T00:00:00.000Z', migrated: true });
+		expect(store.hasChanges()).toBe(true);
+
+		await store.save(loaded.entries);
+		await store.removeLegacyFile();
+
+		expect(await adapter.exists(LEGACY_PATH)).toBe(false);
+		const reloaded = await createStore(adapter).load();
+		expect(reloaded.migrated).toBe(false);
+		expect(byId(reloaded.entries)).toEqual(byId(ENTRIES));
+	});
+
+	it('prefers the shards over a leftover vectors.json', async () => {
+		const store = createStore(adapter);
+		store.markAllDirty();
+		await store.save(ENTRIES.slice(0, 1));
+		await adapter.write(LEGACY_PATH, JSON.stringify({ vectors: ENTRIES }));
+
+		const loaded = await createStore(adapter).load();
+
+		expect(loaded.migrated).toBe(false);
+		expect(loaded.entries).toEqual(ENTRIES.slice(0, 1));
+	});
+
+	it('drops a shard whose embeddings are incomplete and removes unused binaries', async () => {
+		const store = createStore(adapter);
+		store.markAllDirty();
+		await store.save(ENTRIES);
+		const shard = store.shardFor('Report.pdf');
+		const meta = JSON.parse(await adapter.read(`${DIR}/shard-${String(shard).padStart(2, '0')}.json`));
+		await adapter.writeBinary(`${DIR}/${meta.binFile}`, new ArrayBuffer(4));
+		await adapter.writeBinary(`${DIR}/shard-00-interrupted.bin`, new ArrayBuffer(8));
+
+		const loaded = await createStore(adapter).load();
+
+		expect(loaded.entries.map(loadedEntry => loadedEntry.path)).not.toContain('Report.pdf');
+		expect(loaded.entries).toHaveLength(ENTRIES.filter(other => store.shardFor(other.path) !== shard).length);
+		expect(await adapter.exists(`${DIR}/shard-00-interrupted.bin`)).toBe(false);
+		expect(await adapter.exists(`${DIR}/${meta.binFile}`)).toBe(false);
+	});
+});
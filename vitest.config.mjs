@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		// The obsidian package only ships type definitions
+		alias: {
+			obsidian: fileURLToPath(new URL('./tests/obsidian-mock.ts', import.meta.url))
+		}
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+		testTimeout: 60000
+	}
+});